@@ -0,0 +1,174 @@
+/**
+ * Audio input device discovery
+ * Lists capture devices with the platform's own tools so the recorder can be
+ * pointed at a specific microphone via `audio.device`:
+ * - Linux: PulseAudio/PipeWire sources (`pactl`) and ALSA PCMs (`arecord -L`)
+ * - macOS: CoreAudio devices as reported by sox
+ * - Windows: waveaudio devices as reported by sox
+ */
+import { spawn } from 'child_process';
+
+export type AudioDeviceBackend = 'pulse' | 'alsa' | 'coreaudio' | 'waveaudio';
+
+export interface AudioDevice {
+  // Value for `audio.device` (pulse sources are prefixed with "pulse:")
+  id: string;
+  name: string;
+  backend: AudioDeviceBackend;
+  isDefault: boolean;
+}
+
+// Prefix marking a PulseAudio/PipeWire source name in `audio.device`
+export const PULSE_DEVICE_PREFIX = 'pulse:';
+
+const LIST_TIMEOUT_MS = 5000;
+
+interface CommandOutput {
+  code: number | null;
+  stdout: string;
+  stderr: string;
+}
+
+function runCommand(cmd: string, args: string[]): Promise<CommandOutput | null> {
+  return new Promise((resolve) => {
+    // The parsers match English field labels ("Name:", "Default Source:")
+    const proc = spawn(cmd, args, {
+      stdio: ['ignore', 'pipe', 'pipe'],
+      env: { ...process.env, LC_ALL: 'C' },
+    });
+    let stdout = '';
+    let stderr = '';
+
+    const timer = setTimeout(() => proc.kill(), LIST_TIMEOUT_MS);
+
+    proc.stdout.on('data', (data) => {
+      stdout += data.toString();
+    });
+    proc.stderr.on('data', (data) => {
+      stderr += data.toString();
+    });
+
+    proc.on('close', (code) => {
+      clearTimeout(timer);
+      resolve({ code, stdout, stderr });
+    });
+
+    // Tool not installed
+    proc.on('error', () => {
+      clearTimeout(timer);
+      resolve(null);
+    });
+  });
+}
+
+/**
+ * Parse `pactl list sources`, skipping monitors of output sinks
+ */
+export function parsePactlSources(output: string, defaultSource: string | null = null): AudioDevice[] {
+  const devices: AudioDevice[] = [];
+
+  for (const block of output.split(/^Source #/m).slice(1)) {
+    const field = (label: string): string | null => {
+      const match = block.match(new RegExp(`^\\s*${label}: (.*)$`, 'm'));
+      return match ? match[1].trim() : null;
+    };
+
+    const name = field('Name');
+    if (!name) continue;
+
+    const monitorOf = field('Monitor of Sink');
+    if (monitorOf && monitorOf !== 'n/a') continue;
+
+    devices.push({
+      id: PULSE_DEVICE_PREFIX + name,
+      name: field('Description') || name,
+      backend: 'pulse',
+      isDefault: name === defaultSource,
+    });
+  }
+
+  return devices;
+}
+
+/**
+ * Parse `arecord -L`: PCM names at column 0, descriptions indented below
+ */
+export function parseArecordDevices(output: string): AudioDevice[] {
+  const devices: AudioDevice[] = [];
+  let current: AudioDevice | null = null;
+
+  for (const line of output.split('\n')) {
+    if (!line.trim()) continue;
+
+    if (!/^\s/.test(line)) {
+      const id = line.trim();
+      current = id === 'null'
+        ? null
+        : { id, name: id, backend: 'alsa', isDefault: id === 'default' };
+      if (current) devices.push(current);
+    } else if (current && current.name === current.id) {
+      current.name = line.trim();
+    } else if (current) {
+      current.name += `, ${line.trim()}`;
+    }
+  }
+
+  return devices;
+}
+
+/**
+ * Parse sox's verbose driver output (`Found Audio Device "..."` lines)
+ */
+export function parseSoxDevices(output: string, backend: 'coreaudio' | 'waveaudio'): AudioDevice[] {
+  const devices: AudioDevice[] = [];
+
+  for (const match of output.matchAll(/Found Audio Device "(.+?)"/g)) {
+    if (devices.some((device) => device.id === match[1])) continue;
+    devices.push({ id: match[1], name: match[1], backend, isDefault: false });
+  }
+
+  return devices;
+}
+
+async function listLinuxDevices(): Promise<AudioDevice[]> {
+  const devices: AudioDevice[] = [];
+
+  const sources = await runCommand('pactl', ['list', 'sources']);
+  if (sources?.code === 0) {
+    const info = await runCommand('pactl', ['info']);
+    const defaultSource = info?.stdout.match(/^Default Source: (.*)$/m)?.[1].trim() || null;
+    devices.push(...parsePactlSources(sources.stdout, defaultSource));
+  }
+
+  const alsa = await runCommand('arecord', ['-L']);
+  if (alsa?.code === 0) {
+    devices.push(...parseArecordDevices(alsa.stdout));
+  }
+
+  return devices;
+}
+
+async function listSoxDevices(backend: 'coreaudio' | 'waveaudio'): Promise<AudioDevice[]> {
+  // Opening a device that doesn't exist makes sox log every device it found
+  const output = await runCommand('sox', ['-V6', '-n', '-t', backend, 'ptt-list-devices']);
+  if (!output) {
+    throw new Error('sox is not installed');
+  }
+  return parseSoxDevices(output.stdout + output.stderr, backend);
+}
+
+/**
+ * Enumerate audio input devices on this platform
+ */
+export async function listAudioDevices(): Promise<AudioDevice[]> {
+  switch (process.platform) {
+    case 'linux':
+      return listLinuxDevices();
+    case 'darwin':
+      return listSoxDevices('coreaudio');
+    case 'win32':
+      return listSoxDevices('waveaudio');
+    default:
+      throw new Error(`Unsupported platform: ${process.platform}`);
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * ALSA recorder backend (arecord)
+ * Records from ALSA PCMs; PulseAudio/PipeWire sources go through the ALSA
+ * pulse plugin.
+ */
+import type { WavFormat } from '../wav';
+import { PULSE_DEVICE_PREFIX } from '../audio-devices';
+import type { RecordCommand, RecorderBackend } from './index';
+import { commandExists } from './detect';
+
+export class ArecordBackend implements RecorderBackend {
+  readonly name = 'arecord';
+
+  isAvailable(): boolean {
+    return commandExists('arecord');
+  }
+
+  supportsDevice(): boolean {
+    return true;
+  }
+
+  getCommand(format: WavFormat, device: string | null): RecordCommand {
+    const { sampleRate, channels, bitDepth } = format;
+    const args = [
+      '-q',
+      '-f', bitDepth === 16 ? 'S16_LE' : 'S32_LE',
+      '-r', String(sampleRate),
+      '-c', String(channels),
+      '-t', 'raw',
+    ];
+
+    if (device?.startsWith(PULSE_DEVICE_PREFIX)) {
+      return {
+        cmd: 'arecord',
+        args: ['-D', 'pulse', ...args],
+        env: { ...process.env, PULSE_SOURCE: device.slice(PULSE_DEVICE_PREFIX.length) },
+      };
+    }
+
+    return {
+      cmd: 'arecord',
+      args: device ? ['-D', device, ...args] : args,
+    };
+  }
+}
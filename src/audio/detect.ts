@@ -0,0 +1,38 @@
+/**
+ * Availability checks shared by the recorder backends
+ */
+import { execSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export function commandExists(cmd: string): boolean {
+  const lookup = process.platform === 'win32' ? 'where' : 'which';
+  try {
+    execSync(`${lookup} ${cmd}`, { stdio: 'ignore' });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function runtimeDir(): string | null {
+  return process.env.XDG_RUNTIME_DIR || null;
+}
+
+/**
+ * A PulseAudio server (or pipewire-pulse) is accepting clients
+ */
+export function isPulseRunning(): boolean {
+  if (process.env.PULSE_SERVER) return true;
+  const dir = runtimeDir();
+  return !!dir && fs.existsSync(path.join(dir, 'pulse', 'native'));
+}
+
+/**
+ * A PipeWire daemon is accepting clients
+ */
+export function isPipeWireRunning(): boolean {
+  const dir = runtimeDir();
+  const socket = process.env.PIPEWIRE_REMOTE || 'pipewire-0';
+  return !!dir && fs.existsSync(path.join(dir, socket));
+}
@@ -0,0 +1,50 @@
+/**
+ * ffmpeg recorder backend
+ * Captures from PulseAudio (default and "pulse:" devices) or ALSA devices.
+ */
+import type { WavFormat } from '../wav';
+import { PULSE_DEVICE_PREFIX } from '../audio-devices';
+import type { RecordCommand, RecorderBackend } from './index';
+import { commandExists, isPulseRunning } from './detect';
+
+export class FfmpegBackend implements RecorderBackend {
+  readonly name = 'ffmpeg';
+
+  isAvailable(): boolean {
+    return commandExists('ffmpeg');
+  }
+
+  supportsDevice(): boolean {
+    return true;
+  }
+
+  getCommand(format: WavFormat, device: string | null): RecordCommand {
+    const { sampleRate, channels, bitDepth } = format;
+
+    let input: string[];
+    if (device?.startsWith(PULSE_DEVICE_PREFIX)) {
+      input = ['-f', 'pulse', '-i', device.slice(PULSE_DEVICE_PREFIX.length)];
+    } else if (device) {
+      input = ['-f', 'alsa', '-i', device];
+    } else {
+      input = isPulseRunning() ? ['-f', 'pulse', '-i', 'default'] : ['-f', 'alsa', '-i', 'default'];
+    }
+
+    const sampleFormat = bitDepth === 16 ? 's16le' : 's32le';
+
+    return {
+      cmd: 'ffmpeg',
+      args: [
+        '-hide_banner',
+        '-loglevel', 'error',
+        '-nostdin',
+        ...input,
+        '-ac', String(channels),
+        '-ar', String(sampleRate),
+        '-f', sampleFormat,
+        '-acodec', `pcm_${sampleFormat}`,
+        '-',
+      ],
+    };
+  }
+}
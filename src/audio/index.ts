@@ -0,0 +1,76 @@
+/**
+ * Recorder backends
+ * Each backend wraps a command-line tool that captures raw PCM to stdout.
+ * - Linux: parecord (PulseAudio), pw-record (PipeWire), ffmpeg or arecord (ALSA),
+ *   auto-detected in that order
+ * - macOS/Windows: sox
+ */
+import type { WavFormat } from '../wav';
+import { ArecordBackend } from './arecord';
+import { FfmpegBackend } from './ffmpeg';
+import { ParecordBackend } from './parecord';
+import { PwRecordBackend } from './pw-record';
+import { SoxBackend } from './sox';
+
+export type RecorderBackendName = 'parecord' | 'pw-record' | 'ffmpeg' | 'arecord' | 'sox';
+export type RecorderPreference = 'auto' | RecorderBackendName;
+
+export interface RecordCommand {
+  cmd: string;
+  args: string[];
+  env?: NodeJS.ProcessEnv;
+}
+
+export interface RecorderBackend {
+  readonly name: RecorderBackendName;
+  /** Whether the tool is installed (and its sound server is running) */
+  isAvailable(): boolean;
+  /** Whether an `audio.device` id can be passed to this tool */
+  supportsDevice(device: string): boolean;
+  getCommand(format: WavFormat, device: string | null): RecordCommand;
+}
+
+export const RECORDER_BACKEND_NAMES: RecorderBackendName[] = ['parecord', 'pw-record', 'ffmpeg', 'arecord', 'sox'];
+
+// Auto-detection order on Linux
+const LINUX_PRIORITY: RecorderBackendName[] = ['parecord', 'pw-record', 'ffmpeg', 'arecord'];
+
+export function createRecorderBackend(name: RecorderBackendName): RecorderBackend {
+  switch (name) {
+    case 'parecord':
+      return new ParecordBackend();
+    case 'pw-record':
+      return new PwRecordBackend();
+    case 'ffmpeg':
+      return new FfmpegBackend();
+    case 'arecord':
+      return new ArecordBackend();
+    case 'sox':
+      return new SoxBackend();
+    default:
+      throw new Error(`Unknown recorder backend: ${name}. Available: ${RECORDER_BACKEND_NAMES.join(', ')}`);
+  }
+}
+
+/**
+ * Pick the configured backend, or the first available one for this platform
+ */
+export function detectRecorderBackend(preference: RecorderPreference = 'auto'): RecorderBackend {
+  if (preference !== 'auto') {
+    return createRecorderBackend(preference);
+  }
+
+  if (process.platform !== 'linux') {
+    return new SoxBackend();
+  }
+
+  for (const name of LINUX_PRIORITY) {
+    const backend = createRecorderBackend(name);
+    if (backend.isAvailable()) {
+      return backend;
+    }
+  }
+
+  // Nothing detected; arecord gives the most familiar error message
+  return new ArecordBackend();
+}
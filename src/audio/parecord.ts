@@ -0,0 +1,37 @@
+/**
+ * PulseAudio recorder backend (parecord)
+ * Also works on PipeWire desktops through pipewire-pulse.
+ */
+import type { WavFormat } from '../wav';
+import { PULSE_DEVICE_PREFIX } from '../audio-devices';
+import type { RecordCommand, RecorderBackend } from './index';
+import { commandExists, isPulseRunning } from './detect';
+
+export class ParecordBackend implements RecorderBackend {
+  readonly name = 'parecord';
+
+  isAvailable(): boolean {
+    return isPulseRunning() && commandExists('parecord');
+  }
+
+  supportsDevice(device: string): boolean {
+    return device.startsWith(PULSE_DEVICE_PREFIX);
+  }
+
+  getCommand(format: WavFormat, device: string | null): RecordCommand {
+    const { sampleRate, channels, bitDepth } = format;
+    const args = [
+      '--raw',
+      `--format=${bitDepth === 16 ? 's16le' : 's32le'}`,
+      `--rate=${sampleRate}`,
+      `--channels=${channels}`,
+    ];
+
+    if (device) {
+      args.push(`--device=${device.slice(PULSE_DEVICE_PREFIX.length)}`);
+    }
+
+    // With --raw and no file argument, audio goes to stdout
+    return { cmd: 'parecord', args };
+  }
+}
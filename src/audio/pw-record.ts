@@ -0,0 +1,38 @@
+/**
+ * PipeWire recorder backend (pw-record)
+ * Pulse source names from `ptt_list_audio_devices` are PipeWire node names,
+ * so they can be used as the target directly.
+ */
+import type { WavFormat } from '../wav';
+import { PULSE_DEVICE_PREFIX } from '../audio-devices';
+import type { RecordCommand, RecorderBackend } from './index';
+import { commandExists, isPipeWireRunning } from './detect';
+
+export class PwRecordBackend implements RecorderBackend {
+  readonly name = 'pw-record';
+
+  isAvailable(): boolean {
+    return isPipeWireRunning() && commandExists('pw-record');
+  }
+
+  supportsDevice(device: string): boolean {
+    return device.startsWith(PULSE_DEVICE_PREFIX);
+  }
+
+  getCommand(format: WavFormat, device: string | null): RecordCommand {
+    const { sampleRate, channels, bitDepth } = format;
+    const args = [
+      '--raw',
+      '--format', bitDepth === 16 ? 's16' : 's32',
+      '--rate', String(sampleRate),
+      '--channels', String(channels),
+    ];
+
+    if (device) {
+      args.push('--target', device.slice(PULSE_DEVICE_PREFIX.length));
+    }
+
+    // "-" writes to stdout
+    return { cmd: 'pw-record', args: [...args, '-'] };
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * sox recorder backend (macOS and Windows; also usable on Linux)
+ */
+import type { WavFormat } from '../wav';
+import { PULSE_DEVICE_PREFIX } from '../audio-devices';
+import type { RecordCommand, RecorderBackend } from './index';
+import { commandExists } from './detect';
+
+export class SoxBackend implements RecorderBackend {
+  readonly name = 'sox';
+
+  isAvailable(): boolean {
+    return commandExists('sox');
+  }
+
+  supportsDevice(): boolean {
+    return true;
+  }
+
+  private getInputArgs(device: string | null): string[] {
+    switch (process.platform) {
+      case 'darwin':
+        return device ? ['-t', 'coreaudio', device] : ['-d'];
+      case 'win32':
+        return ['-t', 'waveaudio', device || 'default'];
+      default:
+        if (device?.startsWith(PULSE_DEVICE_PREFIX)) {
+          return ['-t', 'pulseaudio', device.slice(PULSE_DEVICE_PREFIX.length)];
+        }
+        return device ? ['-t', 'alsa', device] : ['-d'];
+    }
+  }
+
+  getCommand(format: WavFormat, device: string | null): RecordCommand {
+    const { sampleRate, channels, bitDepth } = format;
+
+    return {
+      cmd: 'sox',
+      args: [
+        '-q',
+        ...this.getInputArgs(device),
+        '-r', String(sampleRate),
+        '-c', String(channels),
+        '-b', String(bitDepth),
+        '-e', 'signed-integer',
+        '-L',
+        '-t', 'raw',
+        '-',
+      ],
+    };
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Hotkey bindings
+ * `hotkey` is the main dictation binding and `cancelHotkey` aborts the current
+ * dictation; `bindings` maps extra hotkeys to other actions such as
+ * dictate-and-submit or re-typing the last transcript.
+ */
+import type { PTTConfig } from './config';
+import type { HotkeyBindingSpec } from './hotkey/index';
+
+export type BindingAction =
+  | 'dictate'
+  | 'dictate-submit'
+  | 'dictate-clipboard'
+  | 'translate'
+  | 'cancel'
+  | 'retype-last';
+
+export interface HotkeyBinding {
+  id: string;
+  hotkey: string;
+  action: BindingAction;
+}
+
+export const BINDING_ACTIONS: BindingAction[] = [
+  'dictate',
+  'dictate-submit',
+  'dictate-clipboard',
+  'translate',
+  'cancel',
+  'retype-last',
+];
+
+// Binding ids of the main `hotkey` and `cancelHotkey`
+export const DEFAULT_BINDING_ID = 'default';
+export const CANCEL_BINDING_ID = 'cancel-hotkey';
+
+export function getBindings(config: PTTConfig): HotkeyBinding[] {
+  const bindings: HotkeyBinding[] = [
+    { id: DEFAULT_BINDING_ID, hotkey: config.hotkey, action: 'dictate' },
+    ...config.bindings,
+  ];
+
+  if (config.cancelHotkey) {
+    bindings.push({ id: CANCEL_BINDING_ID, hotkey: config.cancelHotkey, action: 'cancel' });
+  }
+
+  return bindings;
+}
+
+/**
+ * Bindings as passed to the hotkey listener; cancel interrupts, so it fires
+ * while a dictation hotkey is still held
+ */
+export function getHotkeySpecs(config: PTTConfig): HotkeyBindingSpec[] {
+  return getBindings(config).map(({ id, hotkey, action }) => ({ id, hotkey, interrupt: action === 'cancel' }));
+}
+
+/**
+ * Actions that record audio (as opposed to acting immediately on press)
+ */
+export function isDictationAction(action: BindingAction): boolean {
+  return action !== 'cancel' && action !== 'retype-last';
+}
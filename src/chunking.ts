@@ -0,0 +1,73 @@
+/**
+ * Splitting long recordings for transcription
+ * Recordings longer than a chunk (or larger than a backend's upload limit)
+ * are cut into segments that are transcribed one after another and joined.
+ * Cuts are placed at the quietest frame shortly before each limit, so words
+ * are rarely split between segments.
+ */
+import { computeLevel } from './vad';
+import type { WavFormat } from './wav';
+
+export interface ChunkOptions {
+  // Longest segment in milliseconds
+  maxChunkMs: number;
+  // Largest segment in bytes of PCM (e.g. an upload limit minus the WAV header)
+  maxChunkBytes?: number;
+  // How far back from the limit to look for a quiet cut point
+  searchMs?: number;
+  frameMs?: number;
+}
+
+const DEFAULT_SEARCH_MS = 15000;
+const DEFAULT_FRAME_MS = 30;
+
+/**
+ * Split PCM into segments; returns [pcm] when it already fits
+ */
+export function splitPcm(pcm: Buffer, format: WavFormat, options: ChunkOptions): Buffer[] {
+  const blockAlign = format.channels * (format.bitDepth / 8);
+  const bytesPerMs = (format.sampleRate * blockAlign) / 1000;
+  const alignDown = (bytes: number) => Math.floor(bytes / blockAlign) * blockAlign;
+
+  const maxBytes = alignDown(Math.min(
+    options.maxChunkMs * bytesPerMs,
+    options.maxChunkBytes ?? Infinity
+  ));
+  const frameBytes = Math.max(blockAlign, alignDown((options.frameMs ?? DEFAULT_FRAME_MS) * bytesPerMs));
+  const searchBytes = Math.min(alignDown((options.searchMs ?? DEFAULT_SEARCH_MS) * bytesPerMs), alignDown(maxBytes / 2));
+
+  if (maxBytes <= 0 || pcm.length <= maxBytes) {
+    return [pcm];
+  }
+
+  const chunks: Buffer[] = [];
+  let start = 0;
+
+  while (pcm.length - start > maxBytes) {
+    const limit = start + maxBytes;
+    let cut = limit;
+    let quietest = Infinity;
+
+    // Quietest frame in the window before the limit (latest wins ties)
+    for (let frame = limit - frameBytes; frame >= limit - searchBytes; frame -= frameBytes) {
+      const level = computeLevel(pcm, frame, frame + frameBytes);
+      if (level < quietest) {
+        quietest = level;
+        cut = frame + frameBytes;
+      }
+    }
+
+    chunks.push(pcm.subarray(start, cut));
+    start = cut;
+  }
+
+  chunks.push(pcm.subarray(start));
+  return chunks;
+}
+
+/**
+ * Join segment transcripts with single spaces
+ */
+export function joinTranscripts(texts: string[]): string {
+  return texts.map((text) => text.trim()).filter(Boolean).join(' ');
+}
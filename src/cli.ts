@@ -0,0 +1,81 @@
+#!/usr/bin/env node
+/**
+ * `ptt` command - talks to a running daemon over its control socket
+ * Meant for window-manager keybindings and scripts, e.g. bind a key to
+ * `ptt toggle` to dictate without the hotkey listener.
+ */
+import { sendControlRequest } from './control';
+
+const USAGE = `Usage: ptt <command> [args]
+
+Commands:
+  status                   Show daemon status
+  start                    Start the hotkey listener
+  stop                     Stop the hotkey listener
+  begin [binding]          Start recording (binding id, default "default")
+  end                      Stop recording and transcribe
+  toggle [binding]         Begin or end recording
+  cancel                   Discard the recording or abort the transcription
+  reload                   Reload config from disk
+  history [limit]          List recent transcriptions
+  history search <query>   Search transcriptions
+  history get <id>         Show one transcription
+
+The daemon must be running (npm start). Set PTT_CONTROL_SOCKET to use a
+socket other than the default.`;
+
+function parseCommand(args: string[]): { method: string; params: Record<string, unknown> } | null {
+  const [command, ...rest] = args;
+
+  switch (command) {
+    case 'status':
+    case 'start':
+    case 'stop':
+    case 'cancel':
+      return { method: command, params: {} };
+    case 'begin':
+    case 'end':
+    case 'toggle':
+      return { method: `record.${command}`, params: rest[0] ? { binding: rest[0] } : {} };
+    case 'reload':
+      return { method: 'config.reload', params: {} };
+    case 'history':
+      if (rest[0] === 'search' && rest.length > 1) {
+        return { method: 'history.search', params: { query: rest.slice(1).join(' ') } };
+      }
+      if (rest[0] === 'get' && rest[1]) {
+        return { method: 'history.get', params: { id: rest[1] } };
+      }
+      if (rest[0] === undefined || /^\d+$/.test(rest[0])) {
+        return { method: 'history.list', params: rest[0] ? { limit: Number(rest[0]) } : {} };
+      }
+      return null;
+    default:
+      return null;
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args.length === 0 || args[0] === 'help' || args[0] === '--help' || args[0] === '-h') {
+    console.log(USAGE);
+    return;
+  }
+
+  const command = parseCommand(args);
+  if (!command) {
+    console.error(USAGE);
+    process.exit(2);
+  }
+
+  try {
+    const result = await sendControlRequest(command.method, command.params);
+    console.log(typeof result === 'string' ? result : JSON.stringify(result, null, 2));
+  } catch (error) {
+    console.error(`ptt: ${(error as Error).message}`);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,73 @@
+/**
+ * Clipboard driver backed by platform command-line tools
+ * Text is written on stdin and read from stdout.
+ */
+import { spawn, execSync } from 'child_process';
+import type { ClipboardDriver } from './index';
+
+type Command = [string, string[]];
+
+export class CommandClipboardDriver implements ClipboardDriver {
+  readonly name: string;
+  private writeCommand: Command;
+  private readCommand: Command;
+
+  constructor(name: string, writeCommand: Command, readCommand: Command) {
+    this.name = name;
+    this.writeCommand = writeCommand;
+    this.readCommand = readCommand;
+  }
+
+  isAvailable(): boolean {
+    const lookup = process.platform === 'win32' ? 'where' : 'which';
+    try {
+      execSync(`${lookup} ${this.writeCommand[0]}`, { stdio: 'ignore' });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async read(): Promise<string | null> {
+    const [cmd, args] = this.readCommand;
+
+    return new Promise((resolve) => {
+      const proc = spawn(cmd, args, { stdio: ['ignore', 'pipe', 'ignore'] });
+      let stdout = '';
+
+      proc.stdout.on('data', (data) => {
+        stdout += data.toString();
+      });
+
+      // Empty or non-text clipboards make most tools exit non-zero
+      proc.on('close', (code) => {
+        resolve(code === 0 ? stdout : null);
+      });
+
+      proc.on('error', () => resolve(null));
+    });
+  }
+
+  async write(text: string): Promise<void> {
+    const [cmd, args] = this.writeCommand;
+
+    return new Promise((resolve, reject) => {
+      // xclip and wl-copy fork to keep serving the selection, so don't wait
+      // on stdout/stderr closing ('close'); the parent exiting is enough
+      const proc = spawn(cmd, args, { stdio: ['pipe', 'ignore', 'ignore'] });
+
+      proc.on('exit', (code) => {
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new Error(`${cmd} exited with code ${code}`));
+        }
+      });
+
+      proc.on('error', reject);
+
+      proc.stdin.write(text);
+      proc.stdin.end();
+    });
+  }
+}
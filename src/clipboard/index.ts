@@ -0,0 +1,53 @@
+/**
+ * Cross-platform clipboard access
+ * - Linux Wayland: wl-copy/wl-paste
+ * - Linux X11: xclip or xsel
+ * - macOS: pbcopy/pbpaste
+ * - Windows: clip/PowerShell Get-Clipboard
+ */
+import { CommandClipboardDriver } from './command';
+
+export interface ClipboardDriver {
+  readonly name: string;
+  read(): Promise<string | null>;
+  write(text: string): Promise<void>;
+  isAvailable(): boolean;
+}
+
+export function getClipboardDriver(): ClipboardDriver {
+  const platform = process.platform;
+
+  if (platform === 'darwin') {
+    return new CommandClipboardDriver('pbcopy', ['pbcopy', []], ['pbpaste', []]);
+  }
+
+  if (platform === 'win32') {
+    return new CommandClipboardDriver(
+      'clip',
+      ['clip', []],
+      ['powershell', ['-NoProfile', '-Command', 'Get-Clipboard -Raw']]
+    );
+  }
+
+  const isWayland = process.env.XDG_SESSION_TYPE === 'wayland' ||
+                    process.env.WAYLAND_DISPLAY !== undefined;
+
+  if (isWayland) {
+    return new CommandClipboardDriver('wl-copy', ['wl-copy', []], ['wl-paste', ['--no-newline']]);
+  }
+
+  const xclip = new CommandClipboardDriver(
+    'xclip',
+    ['xclip', ['-selection', 'clipboard']],
+    ['xclip', ['-selection', 'clipboard', '-o']]
+  );
+  if (xclip.isAvailable()) {
+    return xclip;
+  }
+
+  return new CommandClipboardDriver(
+    'xsel',
+    ['xsel', ['--clipboard', '--input']],
+    ['xsel', ['--clipboard', '--output']]
+  );
+}
@@ -1,65 +1,171 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import type { RecorderPreference } from './audio/index';
+import type { HotkeyBinding } from './bindings';
 
 export interface WhisperConfig {
   openaiApiKey: string | null;
+  apiBaseUrl: string | null;
+  apiModel: string;
+  apiHeaders: Record<string, string>;
+  apiKeyRequired: boolean;
   localModelPath: string | null;
   whisperExecutable: string | null;
-  preferredMode: 'api' | 'local';
-  enableFallback: boolean;
+  serverExecutable: string | null;
+  serverHost: string;
+  serverPort: number;
+  backends: string[];
   language: string;
 }
 
 export interface AudioConfig {
   sampleRate: number;
+  /** Input device id (see ptt_list_audio_devices); null for the system default */
+  device: string | null;
+  /** Recording tool; 'auto' picks parecord, pw-record, ffmpeg or arecord on Linux, sox elsewhere */
+  recorder: RecorderPreference;
+  /** Recordings are stopped automatically after this long; 0 for no limit */
+  maxDurationSec: number;
+  /** Longer recordings are transcribed in segments of at most this length */
+  chunkDurationSec: number;
   silenceThreshold: number;
+  trimSilence: boolean;
+  silenceTimeoutMs: number;
+  minSpeechMs: number;
 }
 
 export interface KeystrokeConfig {
   waylandBackend: 'wtype' | 'ydotool' | 'dotool';
 }
 
+export type RecordingMode = 'hold' | 'toggle' | 'hybrid';
+
+export interface OutputConfig {
+  method: 'type' | 'paste' | 'auto';
+  pasteThreshold: number;
+  pasteShortcut: string | null;
+  restoreClipboard: boolean;
+}
+
+export interface VocabularyConfig {
+  terms: string[];
+  prompt: string | null;
+  projectFile: string;
+  includeGitContext: boolean;
+}
+
+export interface PostProcessConfig {
+  transforms: string[];
+  fillerWords: string[];
+  replacements: Record<string, string>;
+  capitalization: 'none' | 'sentence' | 'lower';
+  trailingSpace: boolean;
+}
+
 export interface FeedbackConfig {
   showRecordingIndicator: boolean;
 }
 
+export interface HistoryConfig {
+  enabled: boolean;
+  maxEntries: number;
+  saveAudio: boolean;
+}
+
 export interface PTTConfig {
   hotkey: string;
+  /** Cancels the current recording or transcription; null to disable */
+  cancelHotkey: string | null;
+  bindings: HotkeyBinding[];
+  /** Held keys without events for this long are checked and released if stuck; 0 disables */
+  stuckKeyTimeoutSec: number;
+  recordingMode: RecordingMode;
+  tapThresholdMs: number;
   whisper: WhisperConfig;
   audio: AudioConfig;
   keystroke: KeystrokeConfig;
+  output: OutputConfig;
+  postProcess: PostProcessConfig;
+  vocabulary: VocabularyConfig;
   feedback: FeedbackConfig;
+  history: HistoryConfig;
 }
 
 const DEFAULT_CONFIG: PTTConfig = {
   hotkey: 'Ctrl+Space',
+  cancelHotkey: 'Escape',
+  bindings: [],
+  stuckKeyTimeoutSec: 60,
+  recordingMode: 'hold',
+  tapThresholdMs: 300,
   whisper: {
     openaiApiKey: null,
+    apiBaseUrl: null,
+    apiModel: 'whisper-1',
+    apiHeaders: {},
+    apiKeyRequired: true,
     localModelPath: null,
     whisperExecutable: null,
-    preferredMode: 'api',
-    enableFallback: true,
+    serverExecutable: null,
+    serverHost: '127.0.0.1',
+    serverPort: 8178,
+    backends: ['openai', 'whisper-cli'],
     language: 'en',
   },
   audio: {
     sampleRate: 16000,
+    device: null,
+    recorder: 'auto',
+    maxDurationSec: 1800,
+    chunkDurationSec: 600,
     silenceThreshold: 0.5,
+    trimSilence: true,
+    silenceTimeoutMs: 1500,
+    minSpeechMs: 150,
   },
   keystroke: {
     waylandBackend: 'wtype',
   },
+  output: {
+    method: 'type',
+    pasteThreshold: 200,
+    pasteShortcut: null,
+    restoreClipboard: true,
+  },
+  postProcess: {
+    transforms: [],
+    fillerWords: ['um', 'uh', 'er', 'erm', 'ah', 'hmm'],
+    replacements: {},
+    capitalization: 'none',
+    trailingSpace: false,
+  },
+  vocabulary: {
+    terms: [],
+    prompt: null,
+    projectFile: '.claude/ptt-vocab.json',
+    includeGitContext: false,
+  },
   feedback: {
     showRecordingIndicator: true,
   },
+  history: {
+    enabled: true,
+    maxEntries: 500,
+    saveAudio: false,
+  },
 };
 
-function getConfigPath(): string {
+export function getClaudeDir(): string {
   const claudeDir = path.join(os.homedir(), '.claude');
   if (!fs.existsSync(claudeDir)) {
     fs.mkdirSync(claudeDir, { recursive: true });
   }
-  return path.join(claudeDir, 'ptt-config.json');
+  return claudeDir;
+}
+
+function getConfigPath(): string {
+  return path.join(getClaudeDir(), 'ptt-config.json');
 }
 
 export function loadConfig(): PTTConfig {
@@ -68,7 +174,7 @@ export function loadConfig(): PTTConfig {
   if (fs.existsSync(configPath)) {
     try {
       const fileContent = fs.readFileSync(configPath, 'utf-8');
-      const userConfig = JSON.parse(fileContent);
+      const userConfig = migrateLegacyConfig(JSON.parse(fileContent));
       return deepMerge(DEFAULT_CONFIG, userConfig);
     } catch (error) {
       console.error('Error loading config, using defaults:', error);
@@ -93,17 +199,44 @@ export function updateConfig(updates: Partial<PTTConfig>): PTTConfig {
   return updated;
 }
 
+/**
+ * Convert the old `preferredMode`/`enableFallback` pair to a `backends` chain
+ */
+function migrateLegacyConfig(userConfig: Record<string, unknown>): Partial<PTTConfig> {
+  const whisper = userConfig.whisper;
+  if (!isRecord(whisper)) {
+    return userConfig as Partial<PTTConfig>;
+  }
+
+  if (whisper.backends === undefined && whisper.preferredMode !== undefined) {
+    const chain = whisper.preferredMode === 'local'
+      ? ['whisper-cli', 'openai']
+      : ['openai', 'whisper-cli'];
+    whisper.backends = whisper.enableFallback === false ? chain.slice(0, 1) : chain;
+  }
+
+  delete whisper.preferredMode;
+  delete whisper.enableFallback;
+
+  return userConfig as Partial<PTTConfig>;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Free-form maps are replaced as a whole, like arrays, so entries can be removed
+const REPLACED_KEYS = new Set(['apiHeaders', 'replacements']);
+
 function deepMerge<T extends object>(target: T, source: Partial<T>): T {
   const result = { ...target };
 
   for (const key in source) {
     if (source[key] !== undefined) {
       if (
-        typeof source[key] === 'object' &&
-        source[key] !== null &&
-        !Array.isArray(source[key]) &&
-        typeof target[key] === 'object' &&
-        target[key] !== null
+        !REPLACED_KEYS.has(key) &&
+        isRecord(source[key]) &&
+        isRecord(target[key])
       ) {
         (result as Record<string, unknown>)[key] = deepMerge(
           target[key] as object,
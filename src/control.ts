@@ -0,0 +1,309 @@
+/**
+ * Local control socket for the standalone daemon
+ * The daemon listens on a Unix domain socket (a named pipe on Windows) and
+ * answers newline-delimited JSON-RPC 2.0 requests, one JSON object per line.
+ * The `ptt` CLI (cli.ts) is the client; anything that can write a line to the
+ * socket (window manager keybindings, scripts, tests) can drive it too.
+ *
+ * The socket is private to the user: it lives in $XDG_RUNTIME_DIR when set,
+ * otherwise in the temp directory, and is created with owner-only
+ * permissions. The Windows pipe name includes the user name.
+ * PTT_CONTROL_SOCKET overrides the path.
+ */
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+
+export interface ControlRequest {
+  jsonrpc: '2.0';
+  id: string | number;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface ControlResponse {
+  jsonrpc: '2.0';
+  id: string | number | null;
+  result?: unknown;
+  error?: {
+    code: number;
+    message: string;
+  };
+}
+
+export type ControlHandler = (params: Record<string, unknown>) => unknown | Promise<unknown>;
+
+// JSON-RPC 2.0 error codes
+export const PARSE_ERROR = -32700;
+export const INVALID_REQUEST = -32600;
+export const METHOD_NOT_FOUND = -32601;
+export const INVALID_PARAMS = -32602;
+export const INTERNAL_ERROR = -32603;
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+/**
+ * Thrown by handlers to answer with a specific JSON-RPC error code
+ */
+export class ControlError extends Error {
+  readonly code: number;
+
+  constructor(code: number, message: string) {
+    super(message);
+    this.name = 'ControlError';
+    this.code = code;
+  }
+}
+
+export function getControlSocketPath(): string {
+  if (process.env.PTT_CONTROL_SOCKET) {
+    return process.env.PTT_CONTROL_SOCKET;
+  }
+
+  if (process.platform === 'win32') {
+    return `\\\\.\\pipe\\claude-ptt-${os.userInfo().username}`;
+  }
+
+  // $XDG_RUNTIME_DIR is per-user; the shared temp directory needs the uid in the name
+  if (process.env.XDG_RUNTIME_DIR) {
+    return path.join(process.env.XDG_RUNTIME_DIR, 'claude-ptt.sock');
+  }
+  return path.join(os.tmpdir(), `claude-ptt-${process.getuid?.() ?? 'user'}.sock`);
+}
+
+/**
+ * Answers control requests with the given handlers, keyed by method name
+ */
+export class ControlServer {
+  private handlers: Record<string, ControlHandler>;
+  private socketPath: string;
+  private server: net.Server | null = null;
+
+  constructor(handlers: Record<string, ControlHandler>, socketPath: string = getControlSocketPath()) {
+    this.handlers = handlers;
+    this.socketPath = socketPath;
+  }
+
+  getSocketPath(): string {
+    return this.socketPath;
+  }
+
+  async listen(): Promise<void> {
+    if (this.server) return;
+
+    const server = net.createServer((socket) => this.handleConnection(socket));
+
+    try {
+      await this.bind(server);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EADDRINUSE' || process.platform === 'win32') {
+        throw error;
+      }
+
+      // A socket file left behind by a daemon that crashed is removed;
+      // a live daemon answering on it is an error, and so is anything else
+      // at that path
+      if (!fs.lstatSync(this.socketPath).isSocket()) {
+        throw new Error(`${this.socketPath} exists and is not a socket`);
+      }
+      if (await isSocketAlive(this.socketPath)) {
+        throw new Error(`Another PTT daemon is already listening on ${this.socketPath}`);
+      }
+      fs.unlinkSync(this.socketPath);
+      await this.bind(server);
+    }
+
+    this.server = server;
+  }
+
+  private bind(server: net.Server): Promise<void> {
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+
+      // The socket file is created during listen(); a umask makes it
+      // owner-only from the start instead of chmod-ing it afterwards
+      const umask = process.platform === 'win32' ? null : process.umask(0o177);
+      try {
+        server.listen(this.socketPath, () => {
+          server.off('error', reject);
+          resolve();
+        });
+      } finally {
+        if (umask !== null) process.umask(umask);
+      }
+    });
+  }
+
+  close(): void {
+    if (!this.server) return;
+
+    this.server.close();
+    this.server = null;
+
+    if (process.platform !== 'win32') {
+      try {
+        fs.unlinkSync(this.socketPath);
+      } catch {
+        // Already gone
+      }
+    }
+  }
+
+  private handleConnection(socket: net.Socket): void {
+    let buffer = '';
+
+    socket.setEncoding('utf8');
+    socket.on('data', (data: string) => {
+      buffer += data;
+
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+
+        if (line) {
+          this.handleLine(line)
+            .catch((error): ControlResponse => ({
+              jsonrpc: '2.0',
+              id: null,
+              error: { code: INTERNAL_ERROR, message: error instanceof Error ? error.message : 'Internal error' },
+            }))
+            .then((response) => {
+              if (!socket.destroyed) {
+                socket.write(JSON.stringify(response) + '\n');
+              }
+            });
+        }
+      }
+    });
+
+    // A client that disconnects early is not our problem
+    socket.on('error', () => {});
+  }
+
+  private async handleLine(line: string): Promise<ControlResponse> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      return { jsonrpc: '2.0', id: null, error: { code: PARSE_ERROR, message: 'Parse error' } };
+    }
+
+    if (!isControlRequest(parsed)) {
+      return { jsonrpc: '2.0', id: null, error: { code: INVALID_REQUEST, message: 'Invalid Request' } };
+    }
+
+    const request = parsed;
+    const id = request.id ?? null;
+    const handler = Object.prototype.hasOwnProperty.call(this.handlers, request.method)
+      ? this.handlers[request.method]
+      : undefined;
+
+    if (!handler) {
+      return { jsonrpc: '2.0', id, error: { code: METHOD_NOT_FOUND, message: `Method not found: ${request.method}` } };
+    }
+
+    try {
+      const result = await handler(request.params ?? {});
+      return { jsonrpc: '2.0', id, result: result ?? null };
+    } catch (error) {
+      return {
+        jsonrpc: '2.0',
+        id,
+        error: {
+          code: error instanceof ControlError ? error.code : INTERNAL_ERROR,
+          message: error instanceof Error ? error.message : 'Internal error',
+        },
+      };
+    }
+  }
+}
+
+function isControlRequest(value: unknown): value is ControlRequest {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+
+  const { id, method, params } = value as Record<string, unknown>;
+  return typeof method === 'string' &&
+    (id === undefined || id === null || typeof id === 'string' || typeof id === 'number') &&
+    (params === undefined || (typeof params === 'object' && params !== null && !Array.isArray(params)));
+}
+
+function isSocketAlive(socketPath: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = net.connect(socketPath);
+    socket.once('connect', () => {
+      socket.destroy();
+      resolve(true);
+    });
+    socket.once('error', () => resolve(false));
+  });
+}
+
+/**
+ * Send one request to the daemon and resolve with its result
+ */
+export function sendControlRequest(
+  method: string,
+  params: Record<string, unknown> = {},
+  socketPath: string = getControlSocketPath(),
+  timeoutMs: number = REQUEST_TIMEOUT_MS
+): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const socket = net.connect(socketPath);
+    let buffer = '';
+
+    const timer = setTimeout(() => {
+      socket.destroy();
+      reject(new Error(`No response from the PTT daemon within ${timeoutMs / 1000}s`));
+    }, timeoutMs);
+
+    const finish = (error: Error | null, result?: unknown) => {
+      clearTimeout(timer);
+      socket.destroy();
+      if (error) {
+        reject(error);
+      } else {
+        resolve(result);
+      }
+    };
+
+    socket.setEncoding('utf8');
+    socket.on('connect', () => {
+      const request: ControlRequest = { jsonrpc: '2.0', id: 1, method, params };
+      socket.write(JSON.stringify(request) + '\n');
+    });
+
+    socket.on('data', (data: string) => {
+      buffer += data;
+      const newline = buffer.indexOf('\n');
+      if (newline === -1) return;
+
+      let response: ControlResponse;
+      try {
+        response = JSON.parse(buffer.slice(0, newline));
+      } catch {
+        finish(new Error('Invalid response from the PTT daemon'));
+        return;
+      }
+
+      if (response.error) {
+        finish(new ControlError(response.error.code, response.error.message));
+      } else {
+        finish(null, response.result);
+      }
+    });
+
+    socket.on('error', (error: NodeJS.ErrnoException) => {
+      if (error.code === 'ENOENT' || error.code === 'ECONNREFUSED') {
+        finish(new Error(`PTT daemon is not running (no control socket at ${socketPath})`));
+      } else {
+        finish(error);
+      }
+    });
+
+    socket.on('close', () => {
+      finish(new Error('PTT daemon closed the connection without responding'));
+    });
+  });
+}
@@ -1,80 +1,136 @@
 /**
  * PTT Daemon - Main background process
- * Listens for hotkey, records audio, transcribes, and types text
+ * Listens for hotkey, records audio, transcribes, and types text.
+ * Also answers the `ptt` CLI on a local control socket (see control.ts).
  */
+import { getBindings } from './bindings';
 import { loadConfig, PTTConfig } from './config';
-import { HotkeyListener } from './hotkey';
-import { AudioRecorder } from './recorder';
-import { Transcriber } from './transcribe';
-import { getKeystrokeDriver, KeystrokeDriver } from './keystroke/index';
-
-interface DaemonState {
-  isRunning: boolean;
-  isRecording: boolean;
-  isTranscribing: boolean;
-  lastError: string | null;
-}
+import { ControlError, ControlHandler, ControlServer, INVALID_PARAMS } from './control';
+import { DictationEngine, DictationState, InputDisposition } from './engine';
 
 class PTTDaemon {
   private config: PTTConfig;
-  private hotkeyListener: HotkeyListener;
-  private recorder: AudioRecorder;
-  private transcriber: Transcriber;
-  private keystrokeDriver: KeystrokeDriver | null = null;
-  private state: DaemonState = {
-    isRunning: false,
-    isRecording: false,
-    isTranscribing: false,
-    lastError: null,
-  };
+  private engine: DictationEngine;
+  private control: ControlServer;
+  private isRunning = false;
 
   constructor() {
     this.config = loadConfig();
-    this.hotkeyListener = new HotkeyListener(this.config.hotkey);
-    this.recorder = new AudioRecorder({
-      sampleRate: this.config.audio.sampleRate,
-    });
-    this.transcriber = new Transcriber(this.config);
+    this.engine = new DictationEngine(this.config);
+    this.control = new ControlServer(this.getControlHandlers());
 
     this.setupEventHandlers();
   }
 
-  private setupEventHandlers(): void {
-    // Hotkey pressed - start recording
-    this.hotkeyListener.on('hotkey:down', () => {
-      this.startRecording();
-    });
+  private getControlHandlers(): Record<string, ControlHandler> {
+    const history = () => this.engine.getHistory();
+
+    return {
+      'status': () => this.getStatus(),
+
+      // Start/stop the hotkey listener; the daemon keeps answering either way
+      'start': async () => {
+        if (this.engine.getState().isRunning) return 'Hotkey listener is already running';
+        await this.engine.start();
+        return `Hotkey listener started. Hotkey: ${this.config.hotkey}`;
+      },
+      'stop': () => {
+        if (!this.engine.getState().isRunning) return 'Hotkey listener is not running';
+        this.engine.stop();
+        return 'Hotkey listener stopped';
+      },
+
+      'record.begin': (params) => this.beginRecording(params),
+      'record.end': () => this.endRecording(),
+      'record.toggle': (params) =>
+        this.engine.getState().phase === 'recording' ? this.endRecording() : this.beginRecording(params),
+      'cancel': () => (this.engine.cancel() ? 'Cancelled' : 'Nothing to cancel'),
+
+      'config.reload': () => {
+        this.config = loadConfig();
+        this.engine.updateConfig(this.config);
+        return 'Configuration reloaded';
+      },
+
+      'history.list': (params) =>
+        history().list(
+          params.limit !== undefined ? Number(params.limit) : 20,
+          params.offset !== undefined ? Number(params.offset) : 0
+        ),
+      'history.search': (params) => {
+        if (typeof params.query !== 'string') {
+          throw new ControlError(INVALID_PARAMS, 'Missing query');
+        }
+        return history().search(params.query, params.limit !== undefined ? Number(params.limit) : 20);
+      },
+      'history.get': (params) => {
+        const entry = history().get(String(params.id ?? ''));
+        if (!entry) {
+          throw new ControlError(INVALID_PARAMS, `History entry not found: ${params.id}`);
+        }
+        return entry;
+      },
+    };
+  }
 
-    // Hotkey released - stop recording and transcribe
-    this.hotkeyListener.on('hotkey:up', () => {
-      this.stopRecordingAndTranscribe();
-    });
+  private beginRecording(params: Record<string, unknown>): string {
+    let disposition: InputDisposition;
+    try {
+      disposition = this.engine.beginRecording(params.binding !== undefined ? String(params.binding) : undefined);
+    } catch (error) {
+      throw new ControlError(INVALID_PARAMS, (error as Error).message);
+    }
+
+    switch (disposition) {
+      case 'accept':
+        return 'Recording started';
+      case 'queue':
+        return 'Recording queued until the current dictation is typed';
+      case 'reject':
+        return `Cannot start recording while ${this.engine.getState().phase}`;
+    }
+  }
+
+  private endRecording(): string {
+    return this.engine.endRecording() === 'accept' ? 'Recording stopped, transcribing' : 'Not recording';
+  }
 
-    // Hotkey error
-    this.hotkeyListener.on('error', (error) => {
-      this.state.lastError = `Hotkey error: ${error.message}`;
-      console.error(this.state.lastError);
+  private setupEventHandlers(): void {
+    this.engine.on('state:changed', ({ to }) => {
+      if (to === 'recording' || to === 'transcribing') {
+        this.showFeedback(to);
+      }
     });
 
-    // Recording events
-    this.recorder.on('recording:start', () => {
-      this.state.isRecording = true;
-      this.showFeedback('recording');
+    this.engine.on('input', (input, disposition, phase) => {
+      console.log(`\n${input} ${disposition === 'queue' ? 'queued' : 'ignored'} while ${phase}`);
     });
 
-    this.recorder.on('recording:stop', () => {
-      this.state.isRecording = false;
+    this.engine.on('dictation', (outcome, detail) => {
+      if (outcome === 'completed') {
+        this.showFeedback('done', detail ?? '');
+      } else if (outcome === 'cancelled') {
+        this.showFeedback('cancelled');
+      } else {
+        this.showFeedback('error', detail ?? 'Dictation failed');
+      }
     });
 
-    this.recorder.on('recording:error', (error) => {
-      this.state.isRecording = false;
-      this.state.lastError = `Recording error: ${error.message}`;
-      console.error(this.state.lastError);
-      this.showFeedback('error', error.message);
+    this.engine.on('log', (level, message) => {
+      if (level === 'error') {
+        console.error(message);
+      } else if (level === 'warning') {
+        console.warn(`\nWarning: ${message}`);
+      } else {
+        console.log(message);
+      }
     });
   }
 
-  private showFeedback(type: 'recording' | 'transcribing' | 'done' | 'error', message?: string): void {
+  private showFeedback(
+    type: 'recording' | 'transcribing' | 'done' | 'cancelled' | 'error',
+    message?: string
+  ): void {
     if (!this.config.feedback.showRecordingIndicator) return;
 
     switch (type) {
@@ -87,114 +143,68 @@ class PTTDaemon {
       case 'done':
         process.stdout.write(`\r\x1b[K[PTT] Done: "${message?.substring(0, 50)}${(message?.length || 0) > 50 ? '...' : ''}"\n`);
         break;
+      case 'cancelled':
+        process.stdout.write('\r\x1b[K[PTT] Cancelled\n');
+        break;
       case 'error':
         process.stdout.write(`\r\x1b[K[PTT] Error: ${message}\n`);
         break;
     }
   }
 
-  private startRecording(): void {
-    if (this.state.isRecording || this.state.isTranscribing) return;
-
-    try {
-      this.recorder.start();
-    } catch (error) {
-      this.state.lastError = `Failed to start recording: ${(error as Error).message}`;
-      console.error(this.state.lastError);
-    }
-  }
-
-  private async stopRecordingAndTranscribe(): Promise<void> {
-    if (!this.state.isRecording) return;
-
-    try {
-      const audioPath = await this.recorder.stop();
-
-      if (!audioPath) {
-        this.showFeedback('error', 'No audio recorded');
-        return;
-      }
-
-      this.state.isTranscribing = true;
-      this.showFeedback('transcribing');
-
-      const result = await this.transcriber.transcribe(audioPath);
-
-      this.state.isTranscribing = false;
-
-      if (result.text.trim()) {
-        await this.typeText(result.text.trim());
-        this.showFeedback('done', result.text.trim());
-      } else {
-        this.showFeedback('error', 'No speech detected');
-      }
-    } catch (error) {
-      this.state.isTranscribing = false;
-      this.state.lastError = `Transcription error: ${(error as Error).message}`;
-      console.error(this.state.lastError);
-      this.showFeedback('error', (error as Error).message);
-    }
-  }
-
-  private async typeText(text: string): Promise<void> {
-    if (!this.keystrokeDriver) {
-      this.keystrokeDriver = await getKeystrokeDriver(this.config.keystroke);
-    }
-
-    const isAvailable = await this.keystrokeDriver.isAvailable();
-    if (!isAvailable) {
-      throw new Error('Keystroke driver not available');
-    }
-
-    await this.keystrokeDriver.type(text);
-  }
-
   async start(): Promise<void> {
-    if (this.state.isRunning) {
+    if (this.isRunning) {
       console.log('Daemon already running');
       return;
     }
 
     console.log('Starting PTT daemon...');
     console.log(`Hotkey: ${this.config.hotkey}`);
-    console.log(`Transcription mode: ${this.config.whisper.preferredMode}`);
+    console.log(`Recording mode: ${this.config.recordingMode}`);
+    console.log(`Transcription backends: ${this.config.whisper.backends.join(' -> ')}`);
+
+    // Claim the socket first so a second daemon fails before grabbing the keyboard
+    await this.control.listen();
+    this.isRunning = true;
 
-    // Initialize keystroke driver
     try {
-      this.keystrokeDriver = await getKeystrokeDriver(this.config.keystroke);
-      const isAvailable = await this.keystrokeDriver.isAvailable();
-      if (!isAvailable) {
-        console.warn('Warning: Keystroke driver not available. Text will not be typed.');
-      }
+      await this.engine.start();
     } catch (error) {
-      console.warn('Warning: Could not initialize keystroke driver:', (error as Error).message);
+      this.control.close();
+      this.isRunning = false;
+      throw error;
     }
 
-    // Start hotkey listener
-    this.hotkeyListener.start();
-    this.state.isRunning = true;
-
+    console.log(`Control socket: ${this.control.getSocketPath()}`);
     console.log('PTT daemon started. Press', this.config.hotkey, 'to record.');
     console.log('Press Ctrl+C to stop.');
-
-    // Cleanup old recordings periodically
-    setInterval(() => {
-      this.recorder.cleanup();
-    }, 60 * 60 * 1000); // Every hour
   }
 
   stop(): void {
-    if (!this.state.isRunning) return;
+    if (!this.isRunning) return;
 
     console.log('\nStopping PTT daemon...');
-    this.hotkeyListener.stop();
-    this.recorder.cleanup();
-    this.state.isRunning = false;
+    this.engine.stop();
+    this.control.close();
+    this.isRunning = false;
     console.log('PTT daemon stopped.');
   }
 
-  getState(): DaemonState {
-    return { ...this.state };
+  getState(): DictationState {
+    return this.engine.getState();
+  }
+
+  getStatus(): Record<string, unknown> {
+    return {
+      daemon: this.getState(),
+      hotkey: this.config.hotkey,
+      bindings: getBindings(this.config),
+      recordingMode: this.config.recordingMode,
+      hotkeyDevices: this.engine.getHotkeyDevices(),
+      hotkeyRecoveries: this.engine.getHotkeyRecoveries(),
+      audio: this.engine.getAudioStatus(),
+      backends: this.engine.getBackendStatus(),
+    };
   }
 }
 
@@ -0,0 +1,106 @@
+/**
+ * Dictation state machine
+ * A dictation moves idle -> recording -> transcribing -> outputting -> idle;
+ * recording and transcribing can also end straight back in idle (cancelled,
+ * no speech, errors). Re-typing an earlier transcript goes idle -> outputting
+ * -> idle. Any other transition is a bug and throws.
+ *
+ * Inputs (hotkey presses, cancel, ...) are accepted, queued until the machine
+ * is idle again, or rejected depending on the phase. The machine has no I/O;
+ * the engine drives it and runs queued inputs.
+ */
+
+export type DictationPhase = 'idle' | 'recording' | 'transcribing' | 'outputting';
+
+export type DictationInput =
+  // A dictation binding asked to start recording
+  | 'start'
+  // A dictation binding asked to stop recording (or the VAD / length limit)
+  | 'stop'
+  | 'cancel'
+  | 'retype'
+  | 'listen';
+
+export type InputDisposition = 'accept' | 'queue' | 'reject';
+
+export interface PhaseChange {
+  from: DictationPhase;
+  to: DictationPhase;
+  // Milliseconds since the epoch
+  at: number;
+  reason: string;
+}
+
+// When each phase of the current (or last) dictation was entered
+export type PhaseTimestamps = Partial<Record<DictationPhase, number>>;
+
+export const PHASE_TRANSITIONS: Record<DictationPhase, DictationPhase[]> = {
+  idle: ['recording', 'outputting'],
+  recording: ['transcribing', 'idle'],
+  transcribing: ['outputting', 'idle'],
+  outputting: ['idle'],
+};
+
+export const INPUT_POLICY: Record<DictationPhase, Record<DictationInput, InputDisposition>> = {
+  idle: { start: 'accept', stop: 'reject', cancel: 'reject', retype: 'accept', listen: 'accept' },
+  // Re-typing waits until the dictation has been typed, so the two don't mix
+  recording: { start: 'reject', stop: 'accept', cancel: 'accept', retype: 'queue', listen: 'reject' },
+  // A press while the last dictation is still being processed starts the
+  // next one once it has been typed
+  transcribing: { start: 'queue', stop: 'reject', cancel: 'accept', retype: 'queue', listen: 'reject' },
+  // Typing can't be taken back part-way, so cancel is rejected
+  outputting: { start: 'queue', stop: 'reject', cancel: 'reject', retype: 'queue', listen: 'reject' },
+};
+
+export class DictationStateMachine {
+  private phase: DictationPhase = 'idle';
+  private phaseSince: number;
+  private timestamps: PhaseTimestamps = {};
+
+  constructor(now: number = Date.now()) {
+    this.phaseSince = now;
+  }
+
+  getPhase(): DictationPhase {
+    return this.phase;
+  }
+
+  /**
+   * When the current phase was entered
+   */
+  getPhaseSince(): number {
+    return this.phaseSince;
+  }
+
+  getTimestamps(): PhaseTimestamps {
+    return { ...this.timestamps };
+  }
+
+  canTransition(to: DictationPhase): boolean {
+    return PHASE_TRANSITIONS[this.phase].includes(to);
+  }
+
+  transition(to: DictationPhase, reason: string, now: number = Date.now()): PhaseChange {
+    if (!this.canTransition(to)) {
+      throw new Error(`Invalid dictation transition: ${this.phase} -> ${to} (${reason})`);
+    }
+
+    // A new dictation starts with a fresh set of timestamps
+    if (to === 'recording') {
+      this.timestamps = {};
+    }
+
+    const change: PhaseChange = { from: this.phase, to, at: now, reason };
+    this.phase = to;
+    this.phaseSince = now;
+    this.timestamps[to] = now;
+    return change;
+  }
+
+  /**
+   * What to do with an input in the current phase
+   */
+  admit(input: DictationInput): InputDisposition {
+    return INPUT_POLICY[this.phase][input];
+  }
+}
@@ -0,0 +1,782 @@
+/**
+ * Dictation engine shared by the standalone daemon and the MCP server
+ * Owns the hotkey listener, recorder, transcriber and output, and runs each
+ * dictation through the phases of DictationStateMachine (see dictation-state.ts).
+ * Inputs that arrive while a dictation is being transcribed or typed are queued
+ * or rejected per phase. Entry points subscribe to its events for feedback and
+ * logging instead of polling.
+ */
+import { EventEmitter } from 'events';
+import { BindingAction, DEFAULT_BINDING_ID, getBindings, getHotkeySpecs, HotkeyBinding, isDictationAction } from './bindings';
+import { getClipboardDriver } from './clipboard/index';
+import type { PTTConfig } from './config';
+import {
+  DictationInput,
+  DictationPhase,
+  DictationStateMachine,
+  InputDisposition,
+  PhaseChange,
+  PhaseTimestamps,
+} from './dictation-state';
+import {
+  createHotkeyListener,
+  HotkeyDeviceStatus,
+  HotkeyListenerInterface,
+  HotkeyRecovery,
+  isWayland,
+} from './hotkey/index';
+import { TranscriptionHistory } from './history';
+import { getKeystrokeDriver, KeystrokeDriver } from './keystroke/index';
+import { outputText } from './output';
+import { processTranscript } from './postprocess/index';
+import { AudioRecorder, RecordingResult } from './recorder';
+import { RecordingModeHandler } from './recording-mode';
+import { BackendStatus, Transcriber, TranscriptionResult } from './transcribe';
+import { getVADOptions, trimSilence, VoiceActivityDetector } from './vad';
+
+export type { DictationInput, DictationPhase, InputDisposition, PhaseChange, PhaseTimestamps } from './dictation-state';
+export type DictationOutcome = 'completed' | 'cancelled' | 'no-speech' | 'failed';
+export type LogLevel = 'info' | 'warning' | 'error';
+
+export interface DictationState {
+  isRunning: boolean;
+  phase: DictationPhase;
+  // When the current phase was entered
+  phaseSince: number;
+  // When each phase of the current (or last) dictation was entered
+  timestamps: PhaseTimestamps;
+  // Inputs waiting for the current dictation to finish
+  queued: DictationInput[];
+  // A ptt_listen session owns the recorder (the hotkey is ignored meanwhile)
+  isListening: boolean;
+  lastError: string | null;
+  lastOutcome: DictationOutcome | null;
+  lastTranscription: string | null;
+}
+
+export interface DictationEngineEvents {
+  'state:changed': (change: PhaseChange) => void;
+  // An input was queued or rejected in the current phase
+  'input': (input: DictationInput, disposition: Exclude<InputDisposition, 'accept'>, phase: DictationPhase) => void;
+  // A dictation ended; `detail` is the text when completed, the reason otherwise
+  'dictation': (outcome: DictationOutcome, detail: string | null) => void;
+  'log': (level: LogLevel, message: string) => void;
+}
+
+interface QueuedInput {
+  input: DictationInput;
+  // Binding that queued it, so its release can withdraw a queued start
+  bindingId: string | null;
+  run: () => void;
+}
+
+// Stuck-key recoveries kept for status
+const MAX_HOTKEY_RECOVERIES = 10;
+
+export declare interface DictationEngine {
+  on<E extends keyof DictationEngineEvents>(event: E, listener: DictationEngineEvents[E]): this;
+  off<E extends keyof DictationEngineEvents>(event: E, listener: DictationEngineEvents[E]): this;
+  emit<E extends keyof DictationEngineEvents>(event: E, ...args: Parameters<DictationEngineEvents[E]>): boolean;
+}
+
+export class DictationEngine extends EventEmitter {
+  private config: PTTConfig;
+  private hotkeyListener: HotkeyListenerInterface | null = null;
+  private recorder: AudioRecorder;
+  private transcriber: Transcriber;
+  private history: TranscriptionHistory;
+  private keystrokeDriver: KeystrokeDriver | null = null;
+  private recordingModeHandler: RecordingModeHandler;
+  private vad: VoiceActivityDetector;
+  private machine = new DictationStateMachine();
+  private queue: QueuedInput[] = [];
+  private isRunning = false;
+  private isListening = false;
+  private lastError: string | null = null;
+  private lastOutcome: DictationOutcome | null = null;
+  private lastTranscription: string | null = null;
+  private stopListening: (() => void) | null = null;
+  private hotkeyRecoveries: HotkeyRecovery[] = [];
+  // Binding whose hotkey started the current recording (null for ptt_listen)
+  private recordingBinding: HotkeyBinding | null = null;
+  // Set from when a recording is stopped until its transcript is ready
+  private transcriptionAbort: AbortController | null = null;
+  private cleanupInterval: NodeJS.Timeout | null = null;
+
+  constructor(config: PTTConfig) {
+    super();
+    this.config = config;
+    // hotkeyListener is created in start() since it needs async platform detection
+    this.recorder = new AudioRecorder({
+      sampleRate: config.audio.sampleRate,
+      device: config.audio.device,
+      backend: config.audio.recorder,
+      maxDurationMs: config.audio.maxDurationSec * 1000,
+    });
+    this.transcriber = new Transcriber(config);
+    this.history = new TranscriptionHistory(config.history);
+    this.recordingModeHandler = new RecordingModeHandler(config.recordingMode, config.tapThresholdMs);
+    this.vad = new VoiceActivityDetector(getVADOptions(config.audio));
+    this.setupRecorderHandlers();
+  }
+
+  private setPhase(phase: DictationPhase, reason: string): void {
+    const change = this.machine.transition(phase, reason);
+    this.emit('state:changed', change);
+
+    if (phase === 'idle') {
+      this.runQueued();
+    }
+  }
+
+  /**
+   * Run an input now, queue it until idle, or drop it, per the current phase
+   */
+  private submit(input: DictationInput, run: () => void, bindingId: string | null = null): InputDisposition {
+    const disposition = this.machine.admit(input);
+
+    if (disposition === 'accept') {
+      run();
+      return disposition;
+    }
+
+    if (disposition === 'queue') {
+      // One entry per input; a later press replaces an earlier one
+      this.queue = [...this.queue.filter((queued) => queued.input !== input), { input, bindingId, run }];
+    }
+    this.emit('input', input, disposition, this.machine.getPhase());
+    return disposition;
+  }
+
+  private runQueued(): void {
+    const queue = this.queue;
+    this.queue = [];
+
+    for (const queued of queue) {
+      this.submit(queued.input, queued.run, queued.bindingId);
+    }
+  }
+
+  private log(level: LogLevel, message: string): void {
+    this.emit('log', level, message);
+  }
+
+  private fail(outcome: 'failed' | 'no-speech', message: string): void {
+    this.lastError = message;
+    this.lastOutcome = outcome;
+    this.emit('dictation', outcome, message);
+  }
+
+  private setupRecorderHandlers(): void {
+    this.recorder.on('recording:start', () => {
+      this.vad.reset();
+    });
+
+    // The recording tool exited on its own (device lost, etc.);
+    // listen() handles this itself
+    this.recorder.on('recording:stop', () => {
+      if (this.isRecording() && !this.isListening) {
+        this.fail('failed', 'Recording stopped unexpectedly: the recording tool exited');
+        this.setPhase('idle', 'recorder exited');
+      }
+    });
+
+    this.recorder.on('recording:error', (error: Error) => {
+      const message = `Recording error: ${error.message}`;
+      if (this.isRecording() && !this.isListening) {
+        // Leave no tool running behind an idle engine, or the next start fails
+        this.recorder.stop().catch(() => {});
+        this.fail('failed', message);
+        this.setPhase('idle', 'recording error');
+      } else {
+        this.lastError = message;
+        this.log('error', message);
+      }
+    });
+
+    this.recorder.on('recording:fallback', (device: string, reason: string) => {
+      this.log('warning', `Audio device "${device}" unavailable (${reason}), recording from the default device`);
+    });
+
+    // Stop runaway recordings (e.g. a missed key release) and transcribe what was said
+    // (ptt_listen sessions stop on 'recording:limit' themselves)
+    this.recorder.on('recording:limit', (maxDurationMs: number) => {
+      this.log('warning', `Recording reached the ${Math.round(maxDurationMs / 1000)}s limit (audio.maxDurationSec), stopping`);
+      if (this.isListening) return;
+      this.recordingModeHandler.reset();
+      this.submit('stop', () => this.stopRecordingAndTranscribe('length limit'));
+    });
+
+    // Feed live audio to the VAD for the current recording
+    this.recorder.on('audio:chunk', (chunk: Buffer) => {
+      this.vad.process(chunk);
+    });
+
+    // Auto-stop latched (toggle/hybrid tap) recordings after trailing silence
+    // (ptt_listen sessions handle their own silence)
+    this.vad.on('silence', () => {
+      if (this.isListening) return;
+      if (this.isRecording() && this.recordingModeHandler.isLatched()) {
+        this.log('info', 'Silence detected, stopping recording');
+        this.submit('stop', () => this.stopRecordingAndTranscribe('silence'));
+      }
+    });
+  }
+
+  private setupHotkeyHandlers(listener: HotkeyListenerInterface): void {
+    // Hotkey pressed/released - dispatch on the binding's action
+    listener.on('hotkey:down', (bindingId: string) => {
+      this.handleHotkeyDown(bindingId);
+    });
+
+    listener.on('hotkey:up', (bindingId: string) => {
+      this.handleHotkeyUp(bindingId);
+    });
+
+    // Stuck keys released by the watchdog; a released hold-mode binding has
+    // already stopped its recording through 'hotkey:up'
+    listener.on('hotkey:recovered', (recovery: HotkeyRecovery) => {
+      this.hotkeyRecoveries = [...this.hotkeyRecoveries, recovery].slice(-MAX_HOTKEY_RECOVERIES);
+      this.log(
+        'warning',
+        `Released stuck key(s) ${recovery.keys.join(', ')} (${recovery.reason})` +
+        (recovery.bindingId ? `, binding "${recovery.bindingId}"` : '')
+      );
+    });
+
+    listener.on('error', (error: Error) => {
+      this.lastError = `Hotkey error: ${error.message}`;
+      this.log('error', this.lastError);
+    });
+  }
+
+  private findBinding(bindingId: string): HotkeyBinding | null {
+    return getBindings(this.config).find((binding) => binding.id === bindingId) || null;
+  }
+
+  private isRecording(): boolean {
+    return this.machine.getPhase() === 'recording';
+  }
+
+  private handleHotkeyDown(bindingId: string): void {
+    const binding = this.findBinding(bindingId);
+    if (!binding) return;
+
+    if (!isDictationAction(binding.action)) {
+      this.runBindingAction(binding.action);
+      return;
+    }
+
+    // The hotkey must not interfere with a ptt_listen session
+    if (this.isListening) return;
+
+    // Only the binding that started a recording can stop it
+    if (this.isRecording() && this.recordingBinding && this.recordingBinding.id !== binding.id) {
+      return;
+    }
+
+    const action = this.recordingModeHandler.onHotkeyDown(this.isRecording());
+    if (action === 'start') {
+      this.submit('start', () => this.startRecording(binding), binding.id);
+    } else if (action === 'stop') {
+      this.submit('stop', () => this.stopRecordingAndTranscribe('hotkey'));
+    }
+  }
+
+  private handleHotkeyUp(bindingId: string): void {
+    const binding = this.findBinding(bindingId);
+    if (!binding || !isDictationAction(binding.action)) return;
+    if (this.isListening) return;
+
+    // Releasing a queued press withdraws it when, had it been recording, the
+    // release would have stopped it (hold mode, a long hybrid press)
+    const queuedStart = this.queue.find((queued) => queued.input === 'start' && queued.bindingId === binding.id);
+    if (queuedStart) {
+      if (this.recordingModeHandler.onHotkeyUp(true) === 'stop') {
+        this.queue = this.queue.filter((queued) => queued !== queuedStart);
+      }
+      return;
+    }
+
+    if (this.isRecording() && this.recordingBinding && this.recordingBinding.id !== binding.id) {
+      return;
+    }
+
+    if (this.recordingModeHandler.onHotkeyUp(this.isRecording()) === 'stop') {
+      this.submit('stop', () => this.stopRecordingAndTranscribe('hotkey'));
+    }
+  }
+
+  /**
+   * Actions that run immediately on press instead of recording
+   */
+  private runBindingAction(action: BindingAction): void {
+    if (action === 'cancel') {
+      this.cancel();
+    } else if (action === 'retype-last') {
+      this.submit('retype', () => {
+        // Fall back to history so re-typing also works after a restart
+        const text = this.lastTranscription ?? this.history.list(1)[0]?.text;
+        if (text) {
+          this.outputRetype(text);
+        } else {
+          this.log('error', 'No transcription to re-type');
+        }
+      });
+    }
+  }
+
+  /**
+   * Type an earlier transcript again, once any dictation in progress has
+   * been typed
+   */
+  retype(text: string): InputDisposition {
+    return this.submit('retype', () => this.outputRetype(text));
+  }
+
+  private outputRetype(text: string): void {
+    this.setPhase('outputting', 'retype');
+    this.typeText(text)
+      .catch((error) => {
+        this.lastError = `Failed to re-type: ${(error as Error).message}`;
+        this.log('error', this.lastError);
+      })
+      .finally(() => this.setPhase('idle', 'retyped'));
+  }
+
+  /**
+   * Discard the current recording, or abort the transcription in flight,
+   * along with anything queued behind it; false if there was nothing to cancel
+   */
+  cancel(): boolean {
+    // ptt_listen sessions are stopped with stopListen()
+    if (this.isListening) return false;
+
+    // Cancel is never queued: it applies to what is happening now
+    if (this.machine.admit('cancel') !== 'accept') {
+      this.emit('input', 'cancel', 'reject', this.machine.getPhase());
+      return false;
+    }
+
+    this.queue = [];
+
+    let detail: string;
+    if (this.isRecording()) {
+      this.recordingModeHandler.reset();
+      this.setPhase('idle', 'cancelled');
+      this.recorder.stop().catch(() => {});
+      detail = 'Recording cancelled';
+    } else if (this.transcriptionAbort) {
+      this.transcriptionAbort.abort();
+      detail = 'Transcription cancelled';
+    } else {
+      return false;
+    }
+
+    this.lastOutcome = 'cancelled';
+    this.emit('dictation', 'cancelled', detail);
+    return true;
+  }
+
+  /**
+   * Start recording as if `bindingId`'s hotkey had been tapped (control socket);
+   * it runs until endRecording(), a press of that hotkey or the length limit
+   */
+  beginRecording(bindingId: string = DEFAULT_BINDING_ID): InputDisposition {
+    const binding = this.findBinding(bindingId);
+    if (!binding || !isDictationAction(binding.action)) {
+      throw new Error(`Not a dictation binding: ${bindingId}`);
+    }
+
+    if (this.isListening) return 'reject';
+
+    // Latched, like a toggle tap
+    this.recordingModeHandler.reset();
+    return this.submit('start', () => this.startRecording(binding));
+  }
+
+  /**
+   * Stop the current recording and transcribe it
+   */
+  endRecording(): InputDisposition {
+    if (this.isListening) return 'reject';
+
+    this.recordingModeHandler.reset();
+    return this.submit('stop', () => this.stopRecordingAndTranscribe('control'));
+  }
+
+  private startRecording(binding: HotkeyBinding): void {
+    this.recordingBinding = binding;
+    this.setPhase('recording', `binding "${binding.id}"`);
+
+    try {
+      this.recorder.start();
+    } catch (error) {
+      if (this.isRecording()) {
+        this.fail('failed', `Failed to start recording: ${(error as Error).message}`);
+        this.setPhase('idle', 'recording error');
+      }
+    }
+  }
+
+  private async stopRecordingAndTranscribe(reason: string): Promise<void> {
+    // Leave 'recording' right away so a second trigger (hotkey and VAD) is rejected
+    this.setPhase('transcribing', reason);
+
+    const abort = new AbortController();
+    this.transcriptionAbort = abort;
+
+    try {
+      const recording = await this.recorder.stop();
+      if (abort.signal.aborted) return;
+
+      if (recording.pcm.length === 0) {
+        this.fail('failed', 'No audio recorded');
+        return;
+      }
+
+      const speech = this.extractSpeech(recording);
+
+      if (!speech) {
+        this.fail('no-speech', 'No speech detected');
+        return;
+      }
+
+      const action = this.recordingBinding?.action ?? 'dictate';
+      const result = await this.transcriber.transcribePcm(speech, recording.format, {
+        translate: action === 'translate',
+        signal: abort.signal,
+      });
+
+      // Cancelled after the backend already answered; discard the result
+      if (abort.signal.aborted) return;
+      this.transcriptionAbort = null;
+
+      const text = processTranscript(result.text, this.config.postProcess);
+
+      if (text.trim()) {
+        this.lastTranscription = text;
+        // Save before typing so the dictation survives a keystroke failure
+        this.saveToHistory(text, result, recording);
+        this.setPhase('outputting', 'transcribed');
+        try {
+          await this.deliverText(text, action);
+        } catch (error) {
+          // Transcription succeeded; only typing or copying the text failed
+          this.fail('failed', `Output error: ${(error as Error).message}`);
+          return;
+        }
+        this.lastOutcome = 'completed';
+        this.emit('dictation', 'completed', text.trim());
+      } else {
+        this.fail('no-speech', 'No speech detected');
+      }
+    } catch (error) {
+      if (abort.signal.aborted) return;
+      this.fail('failed', `Transcription error: ${(error as Error).message}`);
+    } finally {
+      this.transcriptionAbort = null;
+      this.setPhase('idle', abort.signal.aborted ? 'cancelled' : 'done');
+    }
+  }
+
+  /**
+   * Trim silence and skip clips without speech before they reach Whisper
+   */
+  private extractSpeech(recording: RecordingResult): Buffer | null {
+    if (!this.config.audio.trimSilence) {
+      return recording.pcm;
+    }
+
+    return trimSilence(recording.pcm, {
+      ...getVADOptions(this.config.audio),
+      channels: recording.format.channels,
+    });
+  }
+
+  /**
+   * Record until trailing silence, the max duration or stopListen(),
+   * then return the transcript instead of typing it
+   */
+  async listen(maxDurationMs: number): Promise<string | null> {
+    if (this.machine.admit('listen') !== 'accept' || this.isListening) {
+      throw new Error('PTT is busy recording or transcribing');
+    }
+
+    this.isListening = true;
+    this.setPhase('recording', 'listen');
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const detach = () => {
+          clearTimeout(timer);
+          this.vad.off('silence', finish);
+          this.recorder.off('recording:limit', finish);
+          this.recorder.off('recording:stop', finish);
+          this.recorder.off('recording:error', finish);
+          this.stopListening = null;
+        };
+        const finish = () => {
+          detach();
+          resolve();
+        };
+
+        const timer = setTimeout(finish, maxDurationMs);
+        this.vad.on('silence', finish);
+        this.recorder.on('recording:limit', finish);
+        this.recorder.on('recording:stop', finish);
+        this.recorder.on('recording:error', finish);
+        this.stopListening = finish;
+
+        try {
+          this.recorder.start();
+        } catch (error) {
+          detach();
+          reject(error);
+        }
+      });
+
+      this.setPhase('transcribing', 'listen stopped');
+      const recording = await this.recorder.stop();
+
+      if (recording.pcm.length === 0) {
+        throw new Error(this.lastError || 'No audio recorded');
+      }
+
+      const speech = this.extractSpeech(recording);
+      if (!speech) return null;
+
+      const result = await this.transcriber.transcribePcm(speech, recording.format);
+      const text = processTranscript(result.text, this.config.postProcess).trim();
+      if (!text) return null;
+
+      this.lastTranscription = text;
+      this.saveToHistory(text, result, recording);
+      return text;
+    } catch (error) {
+      this.lastError = `Listen error: ${(error as Error).message}`;
+      throw new Error(this.lastError);
+    } finally {
+      this.isListening = false;
+      this.setPhase('idle', 'listen done');
+    }
+  }
+
+  /**
+   * End a listen() recording early; false if not listening
+   */
+  stopListen(): boolean {
+    const stopListening = this.stopListening;
+    if (!stopListening) return false;
+    stopListening();
+    return true;
+  }
+
+  private saveToHistory(text: string, result: TranscriptionResult, recording: RecordingResult): void {
+    if (!this.history.isEnabled()) return;
+
+    try {
+      const audioPath = this.history.shouldSaveAudio()
+        ? this.recorder.saveToFile(recording, this.history.getAudioPath())
+        : undefined;
+
+      this.history.add({
+        text,
+        source: result.source,
+        durationMs: recording.durationMs,
+        language: result.language,
+        audioPath,
+      });
+    } catch (error) {
+      this.log('error', `Failed to save history: ${(error as Error).message}`);
+    }
+  }
+
+  private async typeText(text: string): Promise<void> {
+    if (!this.keystrokeDriver) {
+      this.keystrokeDriver = await getKeystrokeDriver(this.config.keystroke);
+    }
+
+    const isAvailable = await this.keystrokeDriver.isAvailable();
+    if (!isAvailable) {
+      throw new Error('Keystroke driver not available');
+    }
+
+    await outputText(text, this.keystrokeDriver, this.config.output);
+  }
+
+  /**
+   * Output a dictation according to the action of the binding that recorded it
+   */
+  private async deliverText(text: string, action: BindingAction): Promise<void> {
+    if (action === 'dictate-clipboard') {
+      await getClipboardDriver().write(text);
+      this.log('info', 'Copied to clipboard');
+      return;
+    }
+
+    await this.typeText(text);
+
+    if (action === 'dictate-submit' && this.keystrokeDriver) {
+      await this.keystrokeDriver.sendShortcut('Enter');
+    }
+  }
+
+  async start(): Promise<void> {
+    if (this.isRunning) return;
+
+    const onWayland = isWayland();
+
+    // Create hotkey listener with platform-appropriate backend
+    try {
+      this.hotkeyListener = await createHotkeyListener(this.config.hotkey);
+      this.hotkeyListener.setBindings(getHotkeySpecs(this.config));
+      this.hotkeyListener.setStuckKeyTimeout(this.config.stuckKeyTimeoutSec * 1000, this.config.audio.maxDurationSec * 1000);
+      this.setupHotkeyHandlers(this.hotkeyListener);
+    } catch (error) {
+      this.hotkeyListener = null;
+      this.lastError = `Failed to create hotkey listener: ${(error as Error).message}`;
+      throw new Error(this.lastError);
+    }
+
+    if (onWayland) {
+      this.log('info', 'Using evdev-based hotkey listener for Wayland');
+      this.log('info', 'Note: User must be in "input" group for hotkey detection');
+    } else {
+      this.log('info', 'Using uiohook-napi for hotkey detection');
+    }
+
+    // Initialize keystroke driver
+    try {
+      this.keystrokeDriver = await getKeystrokeDriver(this.config.keystroke);
+      const isAvailable = await this.keystrokeDriver.isAvailable();
+      if (!isAvailable) {
+        this.log('warning', 'Keystroke driver not available. Text will not be typed.');
+      }
+    } catch (error) {
+      this.log('warning', `Could not initialize keystroke driver: ${(error as Error).message}`);
+    }
+
+    this.hotkeyListener.start();
+    this.isRunning = true;
+
+    // Warm up long-running transcription backends (e.g. whisper-server) in the background
+    this.transcriber.startBackends().catch((error) => {
+      this.log('warning', `Could not start transcription backend: ${error.message}`);
+    });
+
+    // Cleanup old recordings periodically
+    this.cleanupInterval = setInterval(() => {
+      this.recorder.cleanup();
+    }, 60 * 60 * 1000);
+  }
+
+  stop(): void {
+    if (!this.isRunning) return;
+
+    if (this.hotkeyListener) {
+      this.hotkeyListener.stop();
+      this.hotkeyListener.removeAllListeners();
+      this.hotkeyListener = null;
+    }
+    // Nothing started before the stop may record, transcribe or type after it
+    this.queue = [];
+    if (this.isRecording() || this.transcriptionAbort) {
+      this.cancel();
+    }
+    this.recordingModeHandler.reset();
+    this.transcriber.shutdown();
+    this.recorder.cleanup();
+    this.isRunning = false;
+
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = null;
+    }
+  }
+
+  /**
+   * Apply a changed configuration to every component
+   */
+  updateConfig(config: PTTConfig): void {
+    const previous = this.config;
+    this.config = config;
+
+    if (this.hotkeyListener) {
+      // Re-binding drops the held hotkey, so only do it when bindings changed
+      if (JSON.stringify(getBindings(previous)) !== JSON.stringify(getBindings(config))) {
+        this.hotkeyListener.setBindings(getHotkeySpecs(config));
+      }
+      this.hotkeyListener.setStuckKeyTimeout(config.stuckKeyTimeoutSec * 1000, config.audio.maxDurationSec * 1000);
+    }
+
+    if (config.recordingMode !== previous.recordingMode || config.tapThresholdMs !== previous.tapThresholdMs) {
+      this.recordingModeHandler.setMode(config.recordingMode, config.tapThresholdMs);
+    }
+
+    this.transcriber.updateConfig(config);
+    this.history.updateConfig(config.history);
+    this.vad.setOptions(getVADOptions(config.audio));
+    this.recorder.setDevice(config.audio.device);
+    this.recorder.setBackend(config.audio.recorder);
+    this.recorder.setMaxDuration(config.audio.maxDurationSec * 1000);
+  }
+
+  /**
+   * Resolve with the next key combination pressed (see HotkeyListenerInterface)
+   */
+  captureHotkey(timeoutMs: number): Promise<string> {
+    if (!this.hotkeyListener || !this.isRunning) {
+      return Promise.reject(new Error('PTT daemon is not running'));
+    }
+    return this.hotkeyListener.captureHotkey(timeoutMs);
+  }
+
+  getState(): DictationState {
+    return {
+      isRunning: this.isRunning,
+      phase: this.machine.getPhase(),
+      phaseSince: this.machine.getPhaseSince(),
+      timestamps: this.machine.getTimestamps(),
+      queued: this.queue.map((queued) => queued.input),
+      isListening: this.isListening,
+      lastError: this.lastError,
+      lastOutcome: this.lastOutcome,
+      lastTranscription: this.lastTranscription,
+    };
+  }
+
+  getHistory(): TranscriptionHistory {
+    return this.history;
+  }
+
+  getHotkeyDevices(): HotkeyDeviceStatus[] | null {
+    return this.hotkeyListener?.getDevices?.() ?? null;
+  }
+
+  getHotkeyRecoveries(): HotkeyRecovery[] {
+    return [...this.hotkeyRecoveries];
+  }
+
+  getBackendStatus(): BackendStatus[] {
+    return this.transcriber.getBackendStatus();
+  }
+
+  /**
+   * Configured and last used input device, and the recorder backend in use
+   */
+  getAudioStatus(): { device: string | null; lastUsedDevice: string | null; recorder: string | null } {
+    let recorder: string | null = null;
+    try {
+      recorder = this.recorder.getBackend().name;
+    } catch {
+      // Unknown backend name in config
+    }
+
+    return {
+      device: this.config.audio.device,
+      lastUsedDevice: this.recorder.getActiveDevice(),
+      recorder,
+    };
+  }
+}
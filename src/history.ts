@@ -0,0 +1,128 @@
+/**
+ * Transcription history store
+ * Keeps past dictations in ~/.claude/ptt-history.jsonl (one JSON entry per line)
+ * so they can be listed, searched and re-typed after a failed keystroke.
+ * Audio is only kept when `history.saveAudio` is enabled.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { getClaudeDir, HistoryConfig } from './config';
+
+export interface HistoryEntry {
+  id: string;
+  text: string;
+  timestamp: string;
+  source: string;
+  durationMs: number;
+  language?: string;
+  audioPath?: string;
+}
+
+export type NewHistoryEntry = Omit<HistoryEntry, 'id' | 'timestamp'>;
+
+export class TranscriptionHistory {
+  private config: HistoryConfig;
+  private historyPath: string;
+  private audioDir: string;
+
+  constructor(config: HistoryConfig) {
+    this.config = config;
+    this.historyPath = path.join(getClaudeDir(), 'ptt-history.jsonl');
+    this.audioDir = path.join(getClaudeDir(), 'ptt-audio');
+  }
+
+  updateConfig(config: HistoryConfig): void {
+    this.config = config;
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  shouldSaveAudio(): boolean {
+    return this.config.enabled && this.config.saveAudio;
+  }
+
+  /**
+   * Path where the audio for a new entry should be written
+   */
+  getAudioPath(): string {
+    return path.join(this.audioDir, `${Date.now()}.wav`);
+  }
+
+  add(entry: NewHistoryEntry): HistoryEntry | null {
+    if (!this.config.enabled) return null;
+
+    const saved: HistoryEntry = {
+      id: randomUUID().slice(0, 8),
+      timestamp: new Date().toISOString(),
+      ...entry,
+    };
+
+    fs.appendFileSync(this.historyPath, JSON.stringify(saved) + '\n');
+    this.prune();
+
+    return saved;
+  }
+
+  /**
+   * Most recent entries first
+   */
+  list(limit: number = 20, offset: number = 0): HistoryEntry[] {
+    return this.readAll().reverse().slice(offset, offset + limit);
+  }
+
+  search(query: string, limit: number = 20): HistoryEntry[] {
+    const needle = query.toLowerCase();
+    return this.readAll()
+      .reverse()
+      .filter((entry) => entry.text.toLowerCase().includes(needle))
+      .slice(0, limit);
+  }
+
+  get(id: string): HistoryEntry | null {
+    return this.readAll().find((entry) => entry.id === id) || null;
+  }
+
+  private readAll(): HistoryEntry[] {
+    if (!fs.existsSync(this.historyPath)) {
+      return [];
+    }
+
+    const entries: HistoryEntry[] = [];
+    const lines = fs.readFileSync(this.historyPath, 'utf-8').split('\n');
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line) as HistoryEntry);
+      } catch {
+        // Skip corrupt lines (e.g. a partial write)
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Drop the oldest entries (and their audio) once over `maxEntries`
+   */
+  private prune(): void {
+    const entries = this.readAll();
+    const excess = entries.length - this.config.maxEntries;
+    if (excess <= 0) return;
+
+    for (const entry of entries.slice(0, excess)) {
+      if (entry.audioPath) {
+        fs.unlink(entry.audioPath, () => {});
+      }
+    }
+
+    const kept = entries.slice(excess);
+    fs.writeFileSync(
+      this.historyPath,
+      kept.map((entry) => JSON.stringify(entry)).join('\n') + '\n'
+    );
+  }
+}
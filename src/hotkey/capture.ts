@@ -0,0 +1,84 @@
+/**
+ * Hotkey capture ("press the combo you want")
+ * Listener backends translate their key events into grammar names and feed
+ * them here while capturing; the result is the canonical hotkey string.
+ *
+ * - Modifiers followed by a key: "Ctrl+Shift+K" (either side of each modifier)
+ * - A single modifier pressed and released on its own: "RightCtrl" (side-specific)
+ * - Several modifiers released without a key: "Ctrl+Shift"
+ */
+import { formatHotkey, Hotkey, ModifierName } from './grammar';
+
+export type CaptureEvent =
+  | { type: 'modifier'; name: ModifierName; side: 'left' | 'right'; pressed: boolean }
+  | { type: 'key'; key: string; pressed: boolean };
+
+export class HotkeyCapture {
+  readonly result: Promise<string>;
+  private held: Map<string, { name: ModifierName; side: 'left' | 'right' }> = new Map();
+  private peak: { name: ModifierName; side: 'left' | 'right' }[] = [];
+  private resolve!: (hotkey: string) => void;
+  private reject!: (error: Error) => void;
+  private timer: NodeJS.Timeout;
+  private isDone: boolean = false;
+
+  constructor(timeoutMs: number) {
+    this.result = new Promise((resolve, reject) => {
+      this.resolve = resolve;
+      this.reject = reject;
+    });
+
+    this.timer = setTimeout(() => {
+      this.cancel(new Error(`No hotkey pressed within ${Math.round(timeoutMs / 1000)}s`));
+    }, timeoutMs);
+  }
+
+  feed(event: CaptureEvent): void {
+    if (this.isDone) return;
+
+    if (event.type === 'key') {
+      if (!event.pressed) return;
+
+      const hotkey: Hotkey = { modifiers: {}, key: event.key };
+      for (const { name } of this.held.values()) {
+        hotkey.modifiers[name] = 'any';
+      }
+      this.finish(hotkey);
+      return;
+    }
+
+    const id = `${event.name}:${event.side}`;
+
+    if (event.pressed) {
+      this.held.set(id, { name: event.name, side: event.side });
+      if (this.held.size >= this.peak.length) {
+        this.peak = Array.from(this.held.values());
+      }
+      return;
+    }
+
+    this.held.delete(id);
+
+    // Modifiers released without a key: capture a modifier-only hotkey
+    if (this.peak.length > 0) {
+      const hotkey: Hotkey = { modifiers: {}, key: null };
+      for (const { name, side } of this.peak) {
+        hotkey.modifiers[name] = this.peak.length === 1 ? side : 'any';
+      }
+      this.finish(hotkey);
+    }
+  }
+
+  cancel(error: Error = new Error('Hotkey capture cancelled')): void {
+    if (this.isDone) return;
+    this.isDone = true;
+    clearTimeout(this.timer);
+    this.reject(error);
+  }
+
+  private finish(hotkey: Hotkey): void {
+    this.isDone = true;
+    clearTimeout(this.timer);
+    this.resolve(formatHotkey(hotkey));
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * evdev helpers for the Wayland hotkey listener
+ * Decodes `struct input_event` records and classifies /dev/input devices from
+ * the EV_KEY capability bitmap in sysfs. Everything here is a pure function of
+ * its input, so recorded event dumps and capability strings can be replayed.
+ *
+ * References:
+ * - https://www.kernel.org/doc/html/latest/input/input.html#event-interface
+ * - https://github.com/torvalds/linux/blob/master/include/uapi/linux/input.h
+ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+export interface InputEvent {
+  // Kernel event time in milliseconds
+  timestamp: number;
+  type: number;
+  code: number;
+  value: number;
+}
+
+export type InputDeviceKind = 'keyboard' | 'mouse' | 'other' | 'unknown';
+
+export interface InputDeviceInfo {
+  path: string;
+  name: string;
+  kind: InputDeviceKind;
+  // Key and button codes the device can report (empty when unknown)
+  keys: Set<number>;
+}
+
+// Architectures where `long` (and so struct timeval in input_event) is 32-bit
+const ARCHS_32BIT = ['arm', 'ia32', 'mips', 'mipsel', 'ppc'];
+
+/**
+ * Size of `long` in the kernel ABI seen by this process
+ */
+export function getLongSize(arch: string = process.arch): number {
+  return ARCHS_32BIT.includes(arch) ? 4 : 8;
+}
+
+/**
+ * struct input_event { struct timeval time; __u16 type; __u16 code; __s32 value; }
+ * 24 bytes on 64-bit systems, 16 bytes on 32-bit systems
+ */
+export function getInputEventSize(arch: string = process.arch): number {
+  return getLongSize(arch) * 2 + 8;
+}
+
+function readLong(buffer: Buffer, offset: number, longSize: number, littleEndian: boolean): number {
+  if (longSize === 4) {
+    return littleEndian ? buffer.readInt32LE(offset) : buffer.readInt32BE(offset);
+  }
+  return Number(littleEndian ? buffer.readBigInt64LE(offset) : buffer.readBigInt64BE(offset));
+}
+
+/**
+ * Decode whole input_event records; a trailing partial record is ignored
+ */
+export function parseInputEvents(
+  buffer: Buffer,
+  length: number = buffer.length,
+  eventSize: number = getInputEventSize(),
+  littleEndian: boolean = os.endianness() === 'LE'
+): InputEvent[] {
+  const events: InputEvent[] = [];
+  // type, code and value follow the timeval { tv_sec; tv_usec; }
+  const longSize = (eventSize - 8) / 2;
+  const timeSize = eventSize - 8;
+
+  for (let offset = 0; offset + eventSize <= length; offset += eventSize) {
+    const seconds = readLong(buffer, offset, longSize, littleEndian);
+    const micros = readLong(buffer, offset + longSize, longSize, littleEndian);
+    const base = offset + timeSize;
+
+    events.push({
+      timestamp: seconds * 1000 + Math.floor(micros / 1000),
+      type: littleEndian ? buffer.readUInt16LE(base) : buffer.readUInt16BE(base),
+      code: littleEndian ? buffer.readUInt16LE(base + 2) : buffer.readUInt16BE(base + 2),
+      value: littleEndian ? buffer.readInt32LE(base + 4) : buffer.readInt32BE(base + 4),
+    });
+  }
+
+  return events;
+}
+
+/**
+ * Size of `long` in the running kernel, which sysfs bitmaps are printed with
+ * This can differ from getLongSize(): a 32-bit userland on a 64-bit kernel
+ * reads 16-byte input_events (compat layer) but 64-bit bitmap words, so it is
+ * derived from the kernel's machine name rather than the process arch.
+ */
+export function getKernelLongSize(machine: string = os.machine()): number {
+  return /64|s390x/.test(machine) ? 8 : 4;
+}
+
+/**
+ * Parse a sysfs capability bitmap such as `capabilities/key`:
+ * space-separated hex words, most significant word first, one kernel `long` each
+ */
+export function parseCapabilityBitmap(text: string, bitsPerWord: number = getKernelLongSize() * 8): Set<number> {
+  const bits = new Set<number>();
+  const words = text.trim().split(/\s+/).filter(Boolean).reverse();
+
+  words.forEach((word, index) => {
+    let value = BigInt(`0x${word}`);
+    let bit = 0;
+    while (value > 0n) {
+      if (value & 1n) {
+        bits.add(index * bitsPerWord + bit);
+      }
+      value >>= 1n;
+      bit++;
+    }
+  });
+
+  return bits;
+}
+
+const KEY_ENTER = 28;
+const KEY_A = 30;
+const KEY_Z = 44;
+const KEY_SPACE = 57;
+const BTN_LEFT = 272;
+
+export function classifyDevice(keys: Set<number>): InputDeviceKind {
+  // Keyboards report letters; consumer-control and power-button devices
+  // report a handful of keys; mice report BTN_LEFT
+  if ([KEY_A, KEY_Z, KEY_SPACE, KEY_ENTER].every((code) => keys.has(code))) {
+    return 'keyboard';
+  }
+  if (keys.has(BTN_LEFT)) {
+    return 'mouse';
+  }
+  return 'other';
+}
+
+/**
+ * Read name and capabilities of /dev/input/eventN from sysfs
+ */
+export function readDeviceInfo(devicePath: string, sysfsRoot: string = '/sys/class/input'): InputDeviceInfo {
+  const deviceDir = path.join(sysfsRoot, path.basename(devicePath), 'device');
+
+  let name = path.basename(devicePath);
+  try {
+    name = fs.readFileSync(path.join(deviceDir, 'name'), 'utf8').trim();
+  } catch {
+    // Keep the node name
+  }
+
+  try {
+    const keys = parseCapabilityBitmap(fs.readFileSync(path.join(deviceDir, 'capabilities/key'), 'utf8'));
+    return { path: devicePath, name, kind: classifyDevice(keys), keys };
+  } catch {
+    return { path: devicePath, name, kind: 'unknown', keys: new Set() };
+  }
+}
@@ -0,0 +1,245 @@
+/**
+ * Hotkey grammar shared by all listener backends
+ *
+ * A hotkey is any number of modifiers plus at most one key, joined with "+":
+ *   "Ctrl+Space", "RightAlt", "Ctrl+Shift+F13", "Mouse4"
+ *
+ * Parsing is case-insensitive and accepts aliases ("Esc", "Return", "Cmd");
+ * formatting produces the canonical spelling, so format(parse(x)) round-trips.
+ * Keys are identified by backend-neutral names, which each backend maps to
+ * its own key codes.
+ */
+
+export type ModifierName = 'ctrl' | 'shift' | 'alt' | 'meta';
+export type ModifierSide = 'left' | 'right' | 'any';
+
+export interface Hotkey {
+  // Required modifiers; modifiers not listed must not be held
+  modifiers: Partial<Record<ModifierName, ModifierSide>>;
+  // Canonical key name, or null for a modifier-only hotkey (e.g. "RightCtrl")
+  key: string | null;
+}
+
+export class HotkeyParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HotkeyParseError';
+  }
+}
+
+export const MODIFIER_NAMES: ModifierName[] = ['ctrl', 'shift', 'alt', 'meta'];
+
+const MODIFIER_LABELS: Record<ModifierName, string> = {
+  ctrl: 'Ctrl',
+  shift: 'Shift',
+  alt: 'Alt',
+  meta: 'Meta',
+};
+
+const MODIFIER_ALIASES: Record<string, ModifierName> = {
+  ctrl: 'ctrl',
+  control: 'ctrl',
+  shift: 'shift',
+  alt: 'alt',
+  option: 'alt',
+  meta: 'meta',
+  cmd: 'meta',
+  command: 'meta',
+  win: 'meta',
+  super: 'meta',
+};
+
+// Canonical key labels; the key name is the lowercased label
+const KEY_LABELS: string[] = [
+  'Space', 'Enter', 'Tab', 'Escape', 'Backspace',
+  'CapsLock', 'NumLock', 'ScrollLock', 'Pause', 'PrintScreen', 'Menu',
+  'Insert', 'Delete', 'Home', 'End', 'PageUp', 'PageDown',
+  'Up', 'Down', 'Left', 'Right',
+  'Minus', 'Equal', 'BracketLeft', 'BracketRight', 'Semicolon', 'Quote',
+  'Backquote', 'Backslash', 'Comma', 'Period', 'Slash',
+  ...'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789'.split(''),
+  ...Array.from({ length: 24 }, (_, i) => `F${i + 1}`),
+  'Mute', 'VolumeDown', 'VolumeUp', 'PlayPause', 'NextSong', 'PreviousSong', 'StopCD',
+  'MouseMiddle', 'Mouse4', 'Mouse5',
+];
+
+const KEY_ALIASES: Record<string, string> = {
+  'return': 'enter',
+  'esc': 'escape',
+  'arrowup': 'up',
+  'arrowdown': 'down',
+  'arrowleft': 'left',
+  'arrowright': 'right',
+  'pgup': 'pageup',
+  'pgdn': 'pagedown',
+  'ins': 'insert',
+  'del': 'delete',
+  'print': 'printscreen',
+  'prtsc': 'printscreen',
+  'sysrq': 'printscreen',
+  'compose': 'menu',
+  'leftbrace': 'bracketleft',
+  'rightbrace': 'bracketright',
+  'apostrophe': 'quote',
+  'grave': 'backquote',
+  'dot': 'period',
+  'equals': 'equal',
+  'stop': 'stopcd',
+  'mouse3': 'mousemiddle',
+  'mouseside': 'mouse4',
+  'mouseback': 'mouse4',
+  'mouseextra': 'mouse5',
+  'mouseforward': 'mouse5',
+};
+
+const KEY_LABEL_BY_NAME: Record<string, string> = Object.fromEntries(
+  KEY_LABELS.map((label) => [label.toLowerCase(), label])
+);
+
+/**
+ * Resolve a key token or alias to its canonical name
+ */
+export function resolveKeyName(token: string): string | null {
+  const name = token.trim().toLowerCase();
+  const resolved = KEY_ALIASES[name] || name;
+  return resolved in KEY_LABEL_BY_NAME ? resolved : null;
+}
+
+/**
+ * "ctrl" -> any side, "leftctrl"/"lctrl" -> left, "rightctrl"/"rctrl"/"altgr" -> right
+ */
+function parseModifier(token: string): { name: ModifierName; side: ModifierSide } | null {
+  if (token === 'altgr') return { name: 'alt', side: 'right' };
+  if (token in MODIFIER_ALIASES) return { name: MODIFIER_ALIASES[token], side: 'any' };
+
+  const match = token.match(/^(left|right|l|r)(.+)$/);
+  if (match && match[2] in MODIFIER_ALIASES) {
+    return {
+      name: MODIFIER_ALIASES[match[2]],
+      side: match[1].startsWith('l') ? 'left' : 'right',
+    };
+  }
+  return null;
+}
+
+/**
+ * Edit distance counting a swap of adjacent letters as one edit ("spcae")
+ */
+function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+}
+
+function suggest(token: string): string | null {
+  const candidates = [
+    ...Object.keys(KEY_LABEL_BY_NAME),
+    ...Object.keys(KEY_ALIASES),
+    ...Object.keys(MODIFIER_ALIASES),
+  ];
+
+  let best: string | null = null;
+  let bestDistance = Infinity;
+  for (const candidate of candidates) {
+    const distance = editDistance(token, candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  if (!best || bestDistance > Math.max(1, Math.floor(token.length / 3))) {
+    return null;
+  }
+
+  if (best in MODIFIER_ALIASES) {
+    return MODIFIER_LABELS[MODIFIER_ALIASES[best]];
+  }
+  return KEY_LABEL_BY_NAME[KEY_ALIASES[best] || best];
+}
+
+/**
+ * Parse a hotkey string, throwing HotkeyParseError for unknown or conflicting parts
+ */
+export function parseHotkey(input: string): Hotkey {
+  const parts = input.split('+').map((part) => part.trim().toLowerCase());
+  const hotkey: Hotkey = { modifiers: {}, key: null };
+
+  if (!input.trim()) {
+    throw new HotkeyParseError('Hotkey is empty');
+  }
+
+  for (const part of parts) {
+    if (!part) {
+      throw new HotkeyParseError(`Empty key in hotkey "${input}"`);
+    }
+
+    const modifier = parseModifier(part);
+    if (modifier) {
+      if (hotkey.modifiers[modifier.name]) {
+        throw new HotkeyParseError(
+          `Modifier ${MODIFIER_LABELS[modifier.name]} appears more than once in hotkey "${input}"`
+        );
+      }
+      hotkey.modifiers[modifier.name] = modifier.side;
+      continue;
+    }
+
+    const key = resolveKeyName(part);
+    if (!key) {
+      const suggestion = suggest(part);
+      throw new HotkeyParseError(
+        `Unknown key "${part}" in hotkey "${input}"` +
+        (suggestion ? `. Did you mean "${suggestion}"?` : '')
+      );
+    }
+
+    if (hotkey.key) {
+      throw new HotkeyParseError(
+        `Hotkey "${input}" has more than one non-modifier key (${KEY_LABEL_BY_NAME[hotkey.key]}, ${KEY_LABEL_BY_NAME[key]})`
+      );
+    }
+    hotkey.key = key;
+  }
+
+  return hotkey;
+}
+
+/**
+ * Canonical spelling: modifiers in Ctrl, Shift, Alt, Meta order, then the key
+ */
+export function formatHotkey(hotkey: Hotkey): string {
+  const parts: string[] = [];
+
+  for (const name of MODIFIER_NAMES) {
+    const side = hotkey.modifiers[name];
+    if (!side) continue;
+    const prefix = side === 'left' ? 'Left' : side === 'right' ? 'Right' : '';
+    parts.push(prefix + MODIFIER_LABELS[name]);
+  }
+
+  if (hotkey.key) {
+    parts.push(KEY_LABEL_BY_NAME[hotkey.key]);
+  }
+
+  return parts.join('+');
+}
+
+/**
+ * Parse and re-format, e.g. "ctrl+esc" -> "Ctrl+Escape"
+ */
+export function normalizeHotkey(input: string): string {
+  return formatHotkey(parseHotkey(input));
+}
@@ -6,15 +6,51 @@
 import { EventEmitter } from 'events';
 
 export interface HotkeyEvents {
-  'hotkey:down': () => void;
-  'hotkey:up': () => void;
+  'hotkey:down': (bindingId: string) => void;
+  'hotkey:up': (bindingId: string) => void;
+  'hotkey:recovered': (recovery: HotkeyRecovery) => void;
   'error': (error: Error) => void;
 }
 
+/** Stuck keys released by the watchdog (see watchdog.ts) */
+export interface HotkeyRecovery {
+  keys: string[];
+  // Binding that was released as a result, if any
+  bindingId: string | null;
+  // 'not-pressed': the physical key state showed them up; 'timeout': it couldn't be read
+  reason: 'not-pressed' | 'timeout';
+  at: string;
+}
+
+export interface HotkeyBindingSpec {
+  id: string;
+  hotkey: string;
+  // Fires even while another binding is held and with extra modifiers down
+  interrupt?: boolean;
+}
+
+export interface HotkeyDeviceStatus {
+  path: string;
+  name: string;
+  kind: string;
+  events: number;
+  lastEventAt: string | null;
+}
+
 export interface HotkeyListenerInterface extends EventEmitter {
   start(): void;
   stop(): void;
   setHotkey(hotkey: string): void;
+  setBindings(bindings: HotkeyBindingSpec[]): void;
+  /**
+   * Release keys held this long without events (0 disables the watchdog);
+   * a held binding whose keys can't be verified is kept up to `maxHoldMs`
+   */
+  setStuckKeyTimeout(timeoutMs: number, maxHoldMs?: number): void;
+  /** Resolve with the next key combination pressed, in canonical form */
+  captureHotkey(timeoutMs: number): Promise<string>;
+  /** Input devices being read (evdev listener only) */
+  getDevices?(): HotkeyDeviceStatus[];
   isPressed(): boolean;
   getHotkey(): string;
 }
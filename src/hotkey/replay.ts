@@ -0,0 +1,87 @@
+/**
+ * Replay recorded key sequences through the hotkey state machine
+ * Fixtures are either JSON (an array of { code, pressed, timestamp } events,
+ * codes as in state-machine.ts) or a raw evdev dump captured with e.g.
+ * `cat /dev/input/eventN > keys.bin`. Used to reproduce hotkey bugs such as
+ * modifier ordering, key repeat and releasing the key after its modifier
+ * without a real keyboard.
+ */
+import * as fs from 'fs';
+import type { HotkeyBindingSpec } from './index';
+import { getInputEventSize, parseInputEvents } from './evdev';
+import { parseHotkey } from './grammar';
+import { HotkeyStateMachine, HotkeyTransition, KeyEvent } from './state-machine';
+import { evdevCodeToKey } from './wayland-hotkey';
+
+const EV_KEY = 1;
+
+export interface ReplayedTransition extends HotkeyTransition {
+  // Timestamp of the key event that caused the transition
+  timestamp: number;
+}
+
+function parseJsonEvents(text: string, filePath: string): KeyEvent[] {
+  const data = JSON.parse(text) as unknown;
+
+  if (!Array.isArray(data)) {
+    throw new Error(`${filePath}: expected an array of key events`);
+  }
+
+  return data.map((event, index) => {
+    if (
+      typeof event?.code !== 'string' ||
+      typeof event?.pressed !== 'boolean' ||
+      typeof event?.timestamp !== 'number'
+    ) {
+      throw new Error(`${filePath}: event ${index} must have code (string), pressed (boolean) and timestamp (number)`);
+    }
+    return { code: event.code, pressed: event.pressed, timestamp: event.timestamp };
+  });
+}
+
+/**
+ * Decode an evdev dump; `arch` selects the input_event layout it was recorded with
+ */
+export function parseEvdevDump(buffer: Buffer, arch: string = process.arch): KeyEvent[] {
+  const events: KeyEvent[] = [];
+
+  for (const event of parseInputEvents(buffer, buffer.length, getInputEventSize(arch))) {
+    if (event.type !== EV_KEY) continue;
+
+    const code = evdevCodeToKey(event.code);
+    if (!code) continue;
+
+    // Key repeats (value 2) count as presses, as in the live listener
+    events.push({ code, pressed: event.value !== 0, timestamp: event.timestamp });
+  }
+
+  return events;
+}
+
+/**
+ * Load a fixture: `.json` files are key event arrays, anything else an evdev dump
+ */
+export function loadKeyEvents(filePath: string, arch?: string): KeyEvent[] {
+  if (filePath.endsWith('.json')) {
+    return parseJsonEvents(fs.readFileSync(filePath, 'utf8'), filePath);
+  }
+  return parseEvdevDump(fs.readFileSync(filePath), arch);
+}
+
+/**
+ * Run events through a fresh state machine and collect the binding transitions
+ */
+export function replayKeyEvents(events: KeyEvent[], bindings: HotkeyBindingSpec[]): ReplayedTransition[] {
+  const machine = new HotkeyStateMachine();
+  machine.setBindings(bindings.map((b) => ({ id: b.id, hotkey: parseHotkey(b.hotkey), interrupt: b.interrupt })));
+
+  const transitions: ReplayedTransition[] = [];
+  for (const event of events) {
+    const transition = machine.process(event);
+    if (transition) {
+      transitions.push({ ...transition, timestamp: event.timestamp });
+    }
+  }
+
+  return transitions;
+}
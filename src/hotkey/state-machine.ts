@@ -0,0 +1,229 @@
+/**
+ * Backend-neutral hotkey state machine
+ * Listener backends translate native key events into normalized KeyEvents
+ * (grammar key names, with modifiers as "leftctrl", "rightalt", ...) and feed
+ * them here. The machine has no I/O, so recorded key sequences can be replayed
+ * through it (see replay.ts).
+ */
+import { HotkeyCapture } from './capture';
+import { Hotkey, MODIFIER_NAMES, ModifierName } from './grammar';
+
+export interface KeyEvent {
+  // Grammar key name ("space", "f13", "mouse4") or side-specific modifier ("rightctrl")
+  code: string;
+  pressed: boolean;
+  // Milliseconds (wall clock for live input, recorded time for fixtures)
+  timestamp: number;
+}
+
+export interface HotkeyTransition {
+  type: 'down' | 'up';
+  bindingId: string;
+}
+
+export interface MachineBinding {
+  id: string;
+  hotkey: Hotkey;
+  // Also matches while another binding is held, with extra modifiers down
+  // (e.g. cancel pressed during a hold-to-record dictation)
+  interrupt?: boolean;
+}
+
+export const MODIFIER_CODES: Record<ModifierName, { left: string; right: string }> = {
+  ctrl: { left: 'leftctrl', right: 'rightctrl' },
+  shift: { left: 'leftshift', right: 'rightshift' },
+  alt: { left: 'leftalt', right: 'rightalt' },
+  meta: { left: 'leftmeta', right: 'rightmeta' },
+};
+
+function parseModifierCode(code: string): { name: ModifierName; side: 'left' | 'right' } | null {
+  for (const name of MODIFIER_NAMES) {
+    if (code === MODIFIER_CODES[name].left) return { name, side: 'left' };
+    if (code === MODIFIER_CODES[name].right) return { name, side: 'right' };
+  }
+  return null;
+}
+
+export class HotkeyStateMachine {
+  private bindings: MachineBinding[] = [];
+  // Every key currently down with the time it was last reported (repeats
+  // refresh it); repeats (evdev value 2, OS autorepeat) are otherwise ignored
+  private heldKeys: Map<string, number> = new Map();
+  private activeBinding: MachineBinding | null = null;
+  // Interrupt bindings currently down; tracked apart from activeBinding
+  private activeInterrupts: MachineBinding[] = [];
+  private capture: HotkeyCapture | null = null;
+
+  setBindings(bindings: MachineBinding[]): void {
+    this.bindings = bindings;
+    this.activeBinding = null;
+    this.activeInterrupts = [];
+  }
+
+  /**
+   * Apply one key event; returns the binding transition it caused, if any
+   */
+  process(event: KeyEvent): HotkeyTransition | null {
+    const modifier = parseModifierCode(event.code);
+
+    if (event.pressed) {
+      const isRepeat = this.heldKeys.has(event.code);
+      this.heldKeys.set(event.code, event.timestamp);
+      if (isRepeat) return null;
+    } else {
+      if (!this.heldKeys.delete(event.code)) return null;
+    }
+
+    // Bindings are suspended while capturing a new hotkey
+    if (this.capture) {
+      this.capture.feed(modifier
+        ? { type: 'modifier', name: modifier.name, side: modifier.side, pressed: event.pressed }
+        : { type: 'key', key: event.code, pressed: event.pressed });
+    }
+
+    if (event.pressed) {
+      if (this.capture) return null;
+
+      const interrupt = this.bindings.find((b) =>
+        b.interrupt &&
+        !this.activeInterrupts.includes(b) &&
+        this.matches(b.hotkey, event.code, !!modifier, true)
+      );
+      if (interrupt) {
+        this.activeInterrupts.push(interrupt);
+        return { type: 'down', bindingId: interrupt.id };
+      }
+
+      if (this.activeBinding) return null;
+
+      const binding = this.bindings.find((b) => !b.interrupt && this.matches(b.hotkey, event.code, !!modifier));
+      if (!binding) return null;
+
+      this.activeBinding = binding;
+      return { type: 'down', bindingId: binding.id };
+    }
+
+    const releasedInterrupt = this.activeInterrupts.find((b) => this.isReleasedBy(b, event.code, !!modifier));
+    if (releasedInterrupt) {
+      this.activeInterrupts = this.activeInterrupts.filter((b) => b !== releasedInterrupt);
+      return { type: 'up', bindingId: releasedInterrupt.id };
+    }
+
+    if (!this.activeBinding) return null;
+
+    if (!this.isReleasedBy(this.activeBinding, event.code, !!modifier)) return null;
+
+    const { id } = this.activeBinding;
+    this.activeBinding = null;
+    return { type: 'up', bindingId: id };
+  }
+
+  /**
+   * Released when the trigger key goes up, or for modifier-only hotkeys
+   * when one of the required modifiers is let go
+   */
+  private isReleasedBy(binding: MachineBinding, code: string, isModifier: boolean): boolean {
+    const { key } = binding.hotkey;
+    return key !== null
+      ? code === key
+      : isModifier && !this.modifiersMatch(binding.hotkey, !!binding.interrupt);
+  }
+
+  /**
+   * Required modifiers are held on the required side; other modifiers must be
+   * up unless `allowExtra` is set
+   */
+  private modifiersMatch(hotkey: Hotkey, allowExtra: boolean = false): boolean {
+    for (const name of MODIFIER_NAMES) {
+      const left = this.heldKeys.has(MODIFIER_CODES[name].left);
+      const right = this.heldKeys.has(MODIFIER_CODES[name].right);
+
+      switch (hotkey.modifiers[name]) {
+        case undefined:
+          if ((left || right) && !allowExtra) return false;
+          break;
+        case 'any':
+          if (!left && !right) return false;
+          break;
+        case 'left':
+          if (!left || right) return false;
+          break;
+        case 'right':
+          if (!right || left) return false;
+          break;
+      }
+    }
+
+    return true;
+  }
+
+  private matches(hotkey: Hotkey, code: string, isModifier: boolean, allowExtra: boolean = false): boolean {
+    if (hotkey.key === null) {
+      // Modifier-only hotkeys trigger once the last required modifier goes down
+      return isModifier &&
+        Object.keys(hotkey.modifiers).length > 0 &&
+        this.modifiersMatch(hotkey, allowExtra);
+    }
+
+    return code === hotkey.key && this.modifiersMatch(hotkey, allowExtra);
+  }
+
+  /**
+   * Resolve with the next combination pressed instead of matching bindings
+   */
+  startCapture(timeoutMs: number): Promise<string> {
+    if (this.capture) {
+      return Promise.reject(new Error('A hotkey capture is already in progress'));
+    }
+
+    const capture = new HotkeyCapture(timeoutMs);
+    this.capture = capture;
+
+    return capture.result.finally(() => {
+      if (this.capture === capture) {
+        this.capture = null;
+      }
+    });
+  }
+
+  isPressed(): boolean {
+    return this.activeBinding !== null;
+  }
+
+  getActiveBindingId(): string | null {
+    return this.activeBinding?.id ?? null;
+  }
+
+  /**
+   * Held keys, once none of them has had an event (press or repeat) for at
+   * least `timeoutMs`. Only the last key pressed auto-repeats, so a modifier
+   * held under a repeating key is not stale.
+   */
+  getStaleKeys(now: number, timeoutMs: number): string[] {
+    if (this.heldKeys.size === 0) return [];
+
+    const lastEvent = Math.max(...this.heldKeys.values());
+    if (now - lastEvent < timeoutMs) return [];
+
+    return Array.from(this.heldKeys.keys());
+  }
+
+  /**
+   * Mark a key as confirmed held (e.g. after checking the physical key state)
+   */
+  touch(code: string, timestamp: number): void {
+    if (this.heldKeys.has(code)) {
+      this.heldKeys.set(code, timestamp);
+    }
+  }
+
+  /**
+   * Forget all held keys (e.g. when the listener stops)
+   */
+  reset(): void {
+    this.heldKeys.clear();
+    this.activeBinding = null;
+    this.activeInterrupts = [];
+    this.capture?.cancel();
+  }
+}
@@ -14,148 +14,156 @@
  * uIOhook.start()
  * ```
  */
-import { uIOhook, UiohookKey } from 'uiohook-napi';
+import { uIOhook, UiohookKey, UiohookKeyboardEvent, UiohookMouseEvent } from 'uiohook-napi';
 import { EventEmitter } from 'events';
-import type { HotkeyListenerInterface } from './index';
-
-interface ParsedHotkey {
-  ctrl: boolean;
-  shift: boolean;
-  alt: boolean;
-  meta: boolean;
-  key: number | null;
+import type { HotkeyBindingSpec, HotkeyListenerInterface, HotkeyRecovery } from './index';
+import { formatHotkey, Hotkey, MODIFIER_NAMES, ModifierName, parseHotkey, resolveKeyName } from './grammar';
+import { HotkeyWatchdog } from './watchdog';
+import { HotkeyStateMachine, HotkeyTransition, MODIFIER_CODES } from './state-machine';
+import { DEFAULT_BINDING_ID } from '../bindings';
+
+const MODIFIER_KEYS: Record<ModifierName, { left: number; right: number }> = {
+  ctrl: { left: UiohookKey.Ctrl, right: UiohookKey.CtrlRight },
+  shift: { left: UiohookKey.Shift, right: UiohookKey.ShiftRight },
+  alt: { left: UiohookKey.Alt, right: UiohookKey.AltRight },
+  meta: { left: UiohookKey.Meta, right: UiohookKey.MetaRight },
+};
+
+// Mouse buttons share the key code space, offset past the keyboard codes
+const MOUSE_BUTTON_OFFSET = 0x10000;
+
+// Grammar key names that differ from UiohookKey names, or are missing from it
+// (libuiohook virtual key codes)
+const KEY_CODES: Record<string, number> = {
+  'up': UiohookKey.ArrowUp,
+  'down': UiohookKey.ArrowDown,
+  'left': UiohookKey.ArrowLeft,
+  'right': UiohookKey.ArrowRight,
+  'pause': 0x0e45,
+  'menu': 0x0e5d,
+  'mute': 0xe020,
+  'volumedown': 0xe02e,
+  'volumeup': 0xe030,
+  'playpause': 0xe022,
+  'stopcd': 0xe024,
+  'previoussong': 0xe010,
+  'nextsong': 0xe019,
+  'mousemiddle': MOUSE_BUTTON_OFFSET + 3,
+  'mouse4': MOUSE_BUTTON_OFFSET + 4,
+  'mouse5': MOUSE_BUTTON_OFFSET + 5,
+};
+
+for (const [keyName, code] of Object.entries(UiohookKey)) {
+  KEY_CODES[keyName.toLowerCase()] ??= code;
+}
+
+// Native key code -> normalized state machine code
+const KEY_NAMES: Map<number, string> = new Map(
+  Object.entries(KEY_CODES)
+    .filter(([name]) => resolveKeyName(name) === name)
+    .map(([name, code]) => [code, name])
+);
+
+for (const name of MODIFIER_NAMES) {
+  KEY_NAMES.set(MODIFIER_KEYS[name].left, MODIFIER_CODES[name].left);
+  KEY_NAMES.set(MODIFIER_KEYS[name].right, MODIFIER_CODES[name].right);
 }
 
 export class UiohookHotkeyListener extends EventEmitter implements HotkeyListenerInterface {
   private hotkey: string;
-  private parsedHotkey: ParsedHotkey;
-  private isHotkeyActive: boolean = false;
+  private machine: HotkeyStateMachine = new HotkeyStateMachine();
+  private watchdog: HotkeyWatchdog = new HotkeyWatchdog(
+    this.machine,
+    (recovery, transitions) => this.handleRecovery(recovery, transitions)
+  );
+  private stuckKeyTimeoutMs: number = 0;
+  private maxHoldMs: number = 0;
   private isRunning: boolean = false;
 
+  // uIOhook is a process-wide singleton, so handlers are kept to be removed on stop()
+  private onKeyDown = (e: UiohookKeyboardEvent) => this.handleKey(e.keycode, true);
+  private onKeyUp = (e: UiohookKeyboardEvent) => this.handleKey(e.keycode, false);
+  // Mouse buttons (e.g. side buttons) can be bound like keys
+  private onMouseDown = (e: UiohookMouseEvent) => this.handleKey(MOUSE_BUTTON_OFFSET + Number(e.button), true);
+  private onMouseUp = (e: UiohookMouseEvent) => this.handleKey(MOUSE_BUTTON_OFFSET + Number(e.button), false);
+
   constructor(hotkey: string = 'Ctrl+Space') {
     super();
     this.hotkey = hotkey;
-    this.parsedHotkey = this.parseHotkey(hotkey);
+    this.setHotkey(hotkey);
   }
 
-  private parseHotkey(hotkey: string): ParsedHotkey {
-    const parts = hotkey.split('+').map(k => k.trim().toLowerCase());
-    const result: ParsedHotkey = {
-      ctrl: false,
-      shift: false,
-      alt: false,
-      meta: false,
-      key: null,
-    };
-
-    for (const part of parts) {
-      switch (part) {
-        case 'ctrl':
-        case 'control':
-          result.ctrl = true;
-          break;
-        case 'shift':
-          result.shift = true;
-          break;
-        case 'alt':
-          result.alt = true;
-          break;
-        case 'meta':
-        case 'cmd':
-        case 'win':
-        case 'super':
-          result.meta = true;
-          break;
-        case 'space':
-          result.key = UiohookKey.Space;
-          break;
-        case 'enter':
-        case 'return':
-          result.key = UiohookKey.Enter;
-          break;
-        case 'tab':
-          result.key = UiohookKey.Tab;
-          break;
-        case 'escape':
-        case 'esc':
-          result.key = UiohookKey.Escape;
-          break;
-        default:
-          // Try to match single character keys
-          if (part.length === 1) {
-            const upperPart = part.toUpperCase();
-            const keyName = upperPart as keyof typeof UiohookKey;
-            if (keyName in UiohookKey) {
-              result.key = UiohookKey[keyName];
-            }
-          }
-          break;
-      }
+  private parseHotkey(hotkey: string): Hotkey {
+    const parsed = parseHotkey(hotkey);
+
+    if (parsed.key && KEY_CODES[parsed.key] === undefined) {
+      throw new Error(`Key in hotkey "${formatHotkey(parsed)}" is not supported by the uiohook listener`);
     }
 
-    return result;
+    return parsed;
   }
 
-  private checkHotkeyMatch(
-    ctrlKey: boolean,
-    shiftKey: boolean,
-    altKey: boolean,
-    metaKey: boolean,
-    keycode: number
-  ): boolean {
-    const { ctrl, shift, alt, meta, key } = this.parsedHotkey;
-
-    // Check modifiers match expected state
-    if (ctrl !== ctrlKey) return false;
-    if (shift !== shiftKey) return false;
-    if (alt !== altKey) return false;
-    if (meta !== metaKey) return false;
-
-    // Check key matches if specified
-    if (key !== null && key !== keycode) return false;
-
-    return true;
+  private handleKey(keycode: number, pressed: boolean): void {
+    const code = KEY_NAMES.get(keycode);
+    if (!code) return;
+
+    const transition = this.machine.process({ code, pressed, timestamp: Date.now() });
+    if (transition) {
+      this.emit(transition.type === 'down' ? 'hotkey:down' : 'hotkey:up', transition.bindingId);
+    }
+  }
+
+  private handleRecovery(recovery: HotkeyRecovery, transitions: HotkeyTransition[]): void {
+    for (const transition of transitions) {
+      this.emit(transition.type === 'down' ? 'hotkey:down' : 'hotkey:up', transition.bindingId);
+    }
+    this.emit('hotkey:recovered', recovery);
+  }
+
+  setStuckKeyTimeout(timeoutMs: number, maxHoldMs: number = 0): void {
+    this.stuckKeyTimeoutMs = timeoutMs;
+    this.maxHoldMs = maxHoldMs;
+    if (this.isRunning) {
+      this.watchdog.start(timeoutMs, maxHoldMs);
+    }
+  }
+
+  captureHotkey(timeoutMs: number): Promise<string> {
+    if (!this.isRunning) {
+      return Promise.reject(new Error('Hotkey listener is not running'));
+    }
+    return this.machine.startCapture(timeoutMs);
   }
 
   start(): void {
     if (this.isRunning) return;
     this.isRunning = true;
 
-    uIOhook.on('keydown', (e) => {
-      if (!this.isHotkeyActive && this.checkHotkeyMatch(
-        e.ctrlKey,
-        e.shiftKey,
-        e.altKey,
-        e.metaKey,
-        e.keycode
-      )) {
-        this.isHotkeyActive = true;
-        this.emit('hotkey:down');
-      }
-    });
-
-    uIOhook.on('keyup', (e) => {
-      if (this.isHotkeyActive) {
-        // Check if the main key (non-modifier) was released
-        const { key } = this.parsedHotkey;
-        if (key !== null && e.keycode === key) {
-          this.isHotkeyActive = false;
-          this.emit('hotkey:up');
-        }
-      }
-    });
+    uIOhook.on('keydown', this.onKeyDown);
+    uIOhook.on('keyup', this.onKeyUp);
+    uIOhook.on('mousedown', this.onMouseDown);
+    uIOhook.on('mouseup', this.onMouseUp);
 
     try {
       uIOhook.start();
     } catch (error) {
       this.emit('error', error as Error);
     }
+
+    // libuiohook can't read the physical key state, so stuck keys are released on timeout
+    this.watchdog.start(this.stuckKeyTimeoutMs, this.maxHoldMs);
   }
 
   stop(): void {
     if (!this.isRunning) return;
     this.isRunning = false;
-    this.isHotkeyActive = false;
+    this.watchdog.stop();
+    this.machine.reset();
+
+    uIOhook.off('keydown', this.onKeyDown);
+    uIOhook.off('keyup', this.onKeyUp);
+    uIOhook.off('mousedown', this.onMouseDown);
+    uIOhook.off('mouseup', this.onMouseUp);
 
     try {
       uIOhook.stop();
@@ -165,13 +173,16 @@ export class UiohookHotkeyListener extends EventEmitter implements HotkeyListene
   }
 
   setHotkey(hotkey: string): void {
-    this.hotkey = hotkey;
-    this.parsedHotkey = this.parseHotkey(hotkey);
-    this.isHotkeyActive = false;
+    this.setBindings([{ id: DEFAULT_BINDING_ID, hotkey }]);
+  }
+
+  setBindings(bindings: HotkeyBindingSpec[]): void {
+    this.hotkey = bindings[0]?.hotkey ?? '';
+    this.machine.setBindings(bindings.map((b) => ({ id: b.id, hotkey: this.parseHotkey(b.hotkey), interrupt: b.interrupt })));
   }
 
   isPressed(): boolean {
-    return this.isHotkeyActive;
+    return this.machine.isPressed();
   }
 
   getHotkey(): string {
@@ -0,0 +1,110 @@
+/**
+ * Stuck-key watchdog
+ * A lost release event (screen lock, VT switch, focus grabs) leaves a key
+ * held in the state machine, so its binding can never fire again. Once held
+ * keys have had no press or repeat event for the timeout, they are checked against
+ * the physical key state where the backend can read it, and released when
+ * they are not actually down.
+ *
+ * Keys whose state can't be read (uiohook, or evdev without evtest) may just
+ * be held without repeating (mouse buttons, modifiers on macOS). They are
+ * released after the timeout too, except while a binding is held: that may
+ * be a long hold-to-record dictation, so it is only released once held past
+ * the longest allowed recording (`maxHoldMs`, 0 for never).
+ */
+import type { HotkeyRecovery } from './index';
+import { HotkeyStateMachine, HotkeyTransition } from './state-machine';
+
+/** Physical state of a key: true/false, or null when it can't be read */
+export type KeyStateQuery = (code: string) => Promise<boolean | null>;
+
+const MIN_CHECK_INTERVAL_MS = 1000;
+const MAX_CHECK_INTERVAL_MS = 10000;
+
+export class HotkeyWatchdog {
+  private machine: HotkeyStateMachine;
+  private onRecovery: (recovery: HotkeyRecovery, transitions: HotkeyTransition[]) => void;
+  private queryKey: KeyStateQuery | null;
+  private timeoutMs: number = 0;
+  private maxHoldMs: number = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private isChecking: boolean = false;
+
+  constructor(
+    machine: HotkeyStateMachine,
+    onRecovery: (recovery: HotkeyRecovery, transitions: HotkeyTransition[]) => void,
+    queryKey: KeyStateQuery | null = null
+  ) {
+    this.machine = machine;
+    this.onRecovery = onRecovery;
+    this.queryKey = queryKey;
+  }
+
+  /**
+   * Start (or restart) checking; a timeout of 0 disables the watchdog
+   */
+  start(timeoutMs: number, maxHoldMs: number = 0): void {
+    this.stop();
+    this.timeoutMs = timeoutMs;
+    this.maxHoldMs = maxHoldMs;
+    if (timeoutMs <= 0) return;
+
+    const interval = Math.min(Math.max(timeoutMs / 4, MIN_CHECK_INTERVAL_MS), MAX_CHECK_INTERVAL_MS);
+    this.timer = setInterval(() => {
+      this.check().catch(() => {});
+    }, interval);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async check(): Promise<void> {
+    if (this.isChecking) return;
+    this.isChecking = true;
+
+    try {
+      const stale = this.machine.getStaleKeys(Date.now(), this.timeoutMs);
+      if (stale.length === 0) return;
+
+      // Unverifiable keys under a held binding wait for the recording limit
+      const keepUnverified = this.machine.getActiveBindingId() !== null && (
+        this.maxHoldMs <= 0 || this.machine.getStaleKeys(Date.now(), this.maxHoldMs).length === 0
+      );
+
+      const released: string[] = [];
+      let verified = true;
+
+      for (const code of stale) {
+        const pressed = this.queryKey ? await this.queryKey(code) : null;
+        if (pressed === true) {
+          this.machine.touch(code, Date.now());
+        } else if (pressed === false || !keepUnverified) {
+          released.push(code);
+          verified = verified && pressed === false;
+        }
+      }
+
+      if (released.length === 0) return;
+
+      const bindingId = this.machine.getActiveBindingId();
+      const now = Date.now();
+      const transitions = released
+        .map((code) => this.machine.process({ code, pressed: false, timestamp: now }))
+        .filter((transition): transition is HotkeyTransition => transition !== null);
+
+      this.onRecovery({
+        keys: released,
+        bindingId: transitions.length > 0 ? bindingId : null,
+        reason: verified ? 'not-pressed' : 'timeout',
+        at: new Date(now).toISOString(),
+      }, transitions);
+    } finally {
+      this.isChecking = false;
+    }
+  }
+}
@@ -2,244 +2,234 @@
  * Wayland-compatible hotkey listener using evdev
  *
  * On Wayland, X11-based hotkey libraries don't work. This implementation
- * reads directly from /dev/input/event* devices using evdev.
+ * reads directly from /dev/input/event* devices using evdev. Keyboards are
+ * identified from their EV_KEY capabilities, and /dev/input is watched so
+ * devices plugged in (or reconnected) later are picked up.
  *
  * Requirements:
  * - User must be in the 'input' group: sudo usermod -aG input $USER
  * - Or run with elevated permissions
- *
- * Key codes reference: https://github.com/torvalds/linux/blob/master/include/uapi/linux/input-event-codes.h
  */
+import { spawn } from 'child_process';
 import { EventEmitter } from 'events';
 import * as fs from 'fs';
 import * as path from 'path';
-import type { HotkeyListenerInterface } from './index';
-
-// Linux evdev key codes (from input-event-codes.h)
-const KEY_CODES: Record<string, number> = {
-  // Modifiers
-  'leftctrl': 29,
-  'leftshift': 42,
-  'leftalt': 56,
-  'leftmeta': 125,
-  'rightctrl': 97,
-  'rightshift': 54,
-  'rightalt': 100,
-  'rightmeta': 126,
-  // Common keys
-  'space': 57,
-  'enter': 28,
-  'tab': 15,
-  'escape': 1,
-  'backspace': 14,
-  // Letters
-  'a': 30, 'b': 48, 'c': 46, 'd': 32, 'e': 18, 'f': 33, 'g': 34, 'h': 35,
-  'i': 23, 'j': 36, 'k': 37, 'l': 38, 'm': 50, 'n': 49, 'o': 24, 'p': 25,
-  'q': 16, 'r': 19, 's': 31, 't': 20, 'u': 22, 'v': 47, 'w': 17, 'x': 45,
-  'y': 21, 'z': 44,
-  // Numbers
-  '1': 2, '2': 3, '3': 4, '4': 5, '5': 6, '6': 7, '7': 8, '8': 9, '9': 10, '0': 11,
-  // Function keys
-  'f1': 59, 'f2': 60, 'f3': 61, 'f4': 62, 'f5': 63, 'f6': 64,
-  'f7': 65, 'f8': 66, 'f9': 67, 'f10': 68, 'f11': 87, 'f12': 88,
+import type { HotkeyBindingSpec, HotkeyDeviceStatus, HotkeyListenerInterface, HotkeyRecovery } from './index';
+import { getInputEventSize, InputDeviceInfo, parseInputEvents, readDeviceInfo } from './evdev';
+import { formatHotkey, Hotkey, parseHotkey, resolveKeyName } from './grammar';
+import { HotkeyWatchdog } from './watchdog';
+import { HotkeyStateMachine, HotkeyTransition, MachineBinding, MODIFIER_CODES } from './state-machine';
+import { DEFAULT_BINDING_ID } from '../bindings';
+import { KEY_CODES } from '../keycodes';
+
+// Some mice report their side buttons as BTN_BACK/BTN_FORWARD instead of
+// BTN_SIDE/BTN_EXTRA; either code triggers the same hotkey
+const KEY_CODE_ALTERNATES: Record<number, number> = {
+  278: KEY_CODES['mouse4'],
+  277: KEY_CODES['mouse5'],
 };
 
+// KEY_CODES already uses the state machine's modifier names ("leftctrl", ...)
+const MODIFIER_KEY_NAMES: Set<string> = new Set(
+  Object.values(MODIFIER_CODES).flatMap(({ left, right }) => [left, right])
+);
+
+// evdev code -> normalized state machine code, limited to names the grammar accepts
+const KEY_NAMES: Map<number, string> = new Map(
+  Object.entries(KEY_CODES)
+    .filter(([name]) => resolveKeyName(name) === name || MODIFIER_KEY_NAMES.has(name))
+    .map(([name, code]) => [code, name])
+);
+
+/**
+ * Normalized key code for an evdev EV_KEY code, or null if it can't be bound
+ */
+export function evdevCodeToKey(rawCode: number): string | null {
+  return KEY_NAMES.get(KEY_CODE_ALTERNATES[rawCode] ?? rawCode) ?? null;
+}
+
+/**
+ * `evtest --query` exits 10 when the key is down and 0 when it is up
+ * Node can't issue the EVIOCGKEY ioctl without a native addon, so the
+ * optional evtest package does it for us.
+ */
+function queryEvdevKey(devicePath: string, keyCode: number): Promise<boolean | null> {
+  return new Promise((resolve) => {
+    const proc = spawn('evtest', ['--query', devicePath, 'EV_KEY', String(keyCode)], { stdio: 'ignore' });
+    const timer = setTimeout(() => proc.kill(), 2000);
+
+    proc.on('close', (code) => {
+      clearTimeout(timer);
+      resolve(code === 10 ? true : code === 0 ? false : null);
+    });
+    proc.on('error', () => {
+      clearTimeout(timer);
+      resolve(null);
+    });
+  });
+}
+
+const INPUT_DIR = '/dev/input';
+const HOTPLUG_SETTLE_MS = 1000;
+const READ_BATCH_EVENTS = 64;
+
 // evdev event types
 const EV_KEY = 1;
 const KEY_RELEASE = 0;
-const KEY_PRESS = 1;
-
-interface ParsedHotkey {
-  ctrl: boolean;
-  shift: boolean;
-  alt: boolean;
-  meta: boolean;
-  key: number | null;
-}
 
-interface ModifierState {
-  ctrl: boolean;
-  shift: boolean;
-  alt: boolean;
-  meta: boolean;
+interface TrackedDevice {
+  info: InputDeviceInfo;
+  handle?: fs.promises.FileHandle;
+  events: number;
+  lastEventAt: number | null;
 }
 
 export class WaylandHotkeyListener extends EventEmitter implements HotkeyListenerInterface {
   private hotkey: string;
-  private parsedHotkey: ParsedHotkey;
-  private isHotkeyActive: boolean = false;
+  private bindings: MachineBinding[] = [];
+  private machine: HotkeyStateMachine = new HotkeyStateMachine();
+  private watchdog: HotkeyWatchdog = new HotkeyWatchdog(
+    this.machine,
+    (recovery, transitions) => this.handleRecovery(recovery, transitions), (code) => this.queryKeyState(code)
+  );
+  private stuckKeyTimeoutMs: number = 0;
+  private maxHoldMs: number = 0;
   private isRunning: boolean = false;
-  private fileHandles: fs.promises.FileHandle[] = [];
-  private readLoops: Promise<void>[] = [];
+  private devices: Map<string, TrackedDevice> = new Map();
+  private watcher: fs.FSWatcher | null = null;
+  private rescanTimer: NodeJS.Timeout | null = null;
   private abortController: AbortController | null = null;
-  private modifierState: ModifierState = {
-    ctrl: false,
-    shift: false,
-    alt: false,
-    meta: false,
-  };
 
   constructor(hotkey: string = 'Ctrl+Space') {
     super();
     this.hotkey = hotkey;
-    this.parsedHotkey = this.parseHotkey(hotkey);
+    this.setHotkey(hotkey);
   }
 
-  private parseHotkey(hotkey: string): ParsedHotkey {
-    const parts = hotkey.split('+').map(k => k.trim().toLowerCase());
-    const result: ParsedHotkey = {
-      ctrl: false,
-      shift: false,
-      alt: false,
-      meta: false,
-      key: null,
-    };
-
-    for (const part of parts) {
-      switch (part) {
-        case 'ctrl':
-        case 'control':
-          result.ctrl = true;
-          break;
-        case 'shift':
-          result.shift = true;
-          break;
-        case 'alt':
-          result.alt = true;
-          break;
-        case 'meta':
-        case 'cmd':
-        case 'win':
-        case 'super':
-          result.meta = true;
-          break;
-        default:
-          // Look up key code
-          const keyCode = KEY_CODES[part];
-          if (keyCode !== undefined) {
-            result.key = keyCode;
-          }
-          break;
-      }
+  private parseHotkey(hotkey: string): Hotkey {
+    const parsed = parseHotkey(hotkey);
+
+    if (parsed.key && KEY_CODES[parsed.key] === undefined) {
+      throw new Error(`Key in hotkey "${formatHotkey(parsed)}" is not supported by the evdev listener`);
     }
 
-    return result;
+    return parsed;
   }
 
-  private findKeyboardDevices(): string[] {
-    const devices: string[] = [];
-    const inputDir = '/dev/input';
+  private handleKeyEvent(rawCode: number, value: number, timestamp: number): void {
+    const code = evdevCodeToKey(rawCode);
+    if (!code) return;
 
-    try {
-      const files = fs.readdirSync(inputDir);
-      for (const file of files) {
-        if (file.startsWith('event')) {
-          const devicePath = path.join(inputDir, file);
-          // Check if this is a keyboard by looking at /sys/class/input/*/device/capabilities/key
-          const eventNum = file.replace('event', '');
-          const capPath = `/sys/class/input/event${eventNum}/device/capabilities/key`;
-
-          try {
-            const caps = fs.readFileSync(capPath, 'utf8').trim();
-            // Keyboards have extensive key capabilities (long hex string)
-            // A mouse typically has very short capability string
-            if (caps.length > 10) {
-              devices.push(devicePath);
-            }
-          } catch {
-            // If we can't read capabilities, try the device anyway
-            devices.push(devicePath);
-          }
-        }
+    // Key repeats (value 2) count as presses; the state machine ignores them
+    const transition = this.machine.process({ code, pressed: value !== KEY_RELEASE, timestamp });
+    if (transition) {
+      this.emit(transition.type === 'down' ? 'hotkey:down' : 'hotkey:up', transition.bindingId);
+    }
+  }
+
+  /**
+   * Key codes the bindings listen for, so that non-keyboard devices
+   * (mice, media-key receivers) are only opened when they are needed
+   */
+  private getWantedKeyCodes(): Set<number> {
+    const codes = new Set<number>();
+    for (const { hotkey } of this.bindings) {
+      if (hotkey.key === null) continue;
+      const keyCode = KEY_CODES[hotkey.key];
+      codes.add(keyCode);
+      for (const [alternate, code] of Object.entries(KEY_CODE_ALTERNATES)) {
+        if (code === keyCode) codes.add(Number(alternate));
       }
-    } catch (error) {
-      this.emit('error', new Error(`Cannot read /dev/input: ${(error as Error).message}. Make sure you are in the 'input' group.`));
     }
+    return codes;
+  }
 
-    return devices;
+  private shouldOpenDevice(info: InputDeviceInfo): boolean {
+    // If sysfs can't tell us, try the device anyway
+    if (info.kind === 'keyboard' || info.kind === 'unknown') return true;
+
+    const wanted = this.getWantedKeyCodes();
+    return Array.from(info.keys).some((code) => wanted.has(code));
   }
 
-  private updateModifierState(keyCode: number, pressed: boolean): void {
-    switch (keyCode) {
-      case KEY_CODES['leftctrl']:
-      case KEY_CODES['rightctrl']:
-        this.modifierState.ctrl = pressed;
-        break;
-      case KEY_CODES['leftshift']:
-      case KEY_CODES['rightshift']:
-        this.modifierState.shift = pressed;
-        break;
-      case KEY_CODES['leftalt']:
-      case KEY_CODES['rightalt']:
-        this.modifierState.alt = pressed;
-        break;
-      case KEY_CODES['leftmeta']:
-      case KEY_CODES['rightmeta']:
-        this.modifierState.meta = pressed;
-        break;
+  /**
+   * Open any /dev/input/event* device that isn't being read yet
+   */
+  private scanDevices(): void {
+    if (!this.abortController) return;
+
+    let files: string[];
+    try {
+      files = fs.readdirSync(INPUT_DIR);
+    } catch (error) {
+      this.emit('error', new Error(`Cannot read ${INPUT_DIR}: ${(error as Error).message}. Make sure you are in the 'input' group.`));
+      return;
     }
-  }
 
-  private checkHotkeyMatch(keyCode: number): boolean {
-    const { ctrl, shift, alt, meta, key } = this.parsedHotkey;
+    for (const file of files) {
+      if (!file.startsWith('event')) continue;
 
-    // Check modifiers match expected state
-    if (ctrl !== this.modifierState.ctrl) return false;
-    if (shift !== this.modifierState.shift) return false;
-    if (alt !== this.modifierState.alt) return false;
-    if (meta !== this.modifierState.meta) return false;
+      const devicePath = path.join(INPUT_DIR, file);
+      if (this.devices.has(devicePath)) continue;
 
-    // Check key matches if specified
-    if (key !== null && key !== keyCode) return false;
+      const info = readDeviceInfo(devicePath);
+      if (!this.shouldOpenDevice(info)) continue;
 
-    return true;
+      const device: TrackedDevice = { info, events: 0, lastEventAt: null };
+      this.devices.set(devicePath, device);
+      this.readEventsFromDevice(device, this.abortController.signal);
+    }
+  }
+
+  /**
+   * Watch /dev/input (inotify) so keyboards plugged in or reconnected later
+   * are picked up. udev applies the 'input' group permissions shortly after
+   * the node appears, so rescans are delayed.
+   */
+  private watchDevices(): void {
+    try {
+      this.watcher = fs.watch(INPUT_DIR, (_eventType, filename) => {
+        if (!filename || !filename.toString().startsWith('event')) return;
+        if (this.rescanTimer) return;
+
+        this.rescanTimer = setTimeout(() => {
+          this.rescanTimer = null;
+          this.scanDevices();
+        }, HOTPLUG_SETTLE_MS);
+      });
+
+      this.watcher.on('error', (error) => {
+        this.emit('error', new Error(`Stopped watching ${INPUT_DIR} for new devices: ${error.message}`));
+      });
+    } catch (error) {
+      this.emit('error', new Error(`Cannot watch ${INPUT_DIR} for new devices: ${(error as Error).message}`));
+    }
   }
 
-  private async readEventsFromDevice(devicePath: string, signal: AbortSignal): Promise<void> {
+  private async readEventsFromDevice(device: TrackedDevice, signal: AbortSignal): Promise<void> {
+    const devicePath = device.info.path;
     let handle: fs.promises.FileHandle | null = null;
 
     try {
       handle = await fs.promises.open(devicePath, 'r');
-      this.fileHandles.push(handle);
+      device.handle = handle;
 
-      // evdev event structure: struct input_event { time (16 bytes), type (2), code (2), value (4) }
-      // On 64-bit systems: time is two 8-byte values (seconds, microseconds)
-      const eventSize = 24; // 64-bit systems
-      const buffer = Buffer.alloc(eventSize);
+      // The kernel only returns whole input_event records
+      const eventSize = getInputEventSize();
+      const buffer = Buffer.alloc(eventSize * READ_BATCH_EVENTS);
 
       while (!signal.aborted) {
         try {
-          const { bytesRead } = await handle.read(buffer, 0, eventSize, null);
+          const { bytesRead } = await handle.read(buffer, 0, buffer.length, null);
 
           if (bytesRead === 0 || signal.aborted) break;
-          if (bytesRead !== eventSize) continue;
-
-          // Parse event
-          const type = buffer.readUInt16LE(16);
-          const code = buffer.readUInt16LE(18);
-          const value = buffer.readInt32LE(20);
-
-          if (type === EV_KEY) {
-            // Update modifier state for all key events
-            this.updateModifierState(code, value === KEY_PRESS);
-
-            if (value === KEY_PRESS) {
-              // Key pressed
-              if (!this.isHotkeyActive && this.checkHotkeyMatch(code)) {
-                this.isHotkeyActive = true;
-                this.emit('hotkey:down');
-              }
-            } else if (value === KEY_RELEASE) {
-              // Key released
-              if (this.isHotkeyActive) {
-                // Check if the main key (non-modifier) was released
-                const { key } = this.parsedHotkey;
-                if (key !== null && code === key) {
-                  this.isHotkeyActive = false;
-                  this.emit('hotkey:up');
-                }
-              }
-            }
+
+          for (const event of parseInputEvents(buffer, bytesRead, eventSize)) {
+            if (event.type !== EV_KEY) continue;
+
+            device.events++;
+            device.lastEventAt = Date.now();
+            this.handleKeyEvent(event.code, event.value, event.timestamp);
           }
         } catch (error) {
           if (signal.aborted) break;
@@ -249,19 +239,24 @@ export class WaylandHotkeyListener extends EventEmitter implements HotkeyListene
         }
       }
     } catch (error) {
-      if (!signal.aborted) {
-        // Only emit error if not intentionally stopped
-        const errMsg = (error as Error).message;
-        if (errMsg.includes('EACCES') || errMsg.includes('permission')) {
-          this.emit('error', new Error(
-            `Permission denied reading ${devicePath}. ` +
-            `Add user to input group: sudo usermod -aG input $USER (then log out and back in)`
-          ));
-        } else {
-          this.emit('error', error as Error);
-        }
+      const code = (error as NodeJS.ErrnoException).code;
+
+      if (signal.aborted) {
+        // Intentionally stopped
+      } else if (code === 'ENODEV' || code === 'ENOENT') {
+        // Device unplugged; the watcher picks it up again when it returns
+      } else if (code === 'EACCES' || (error as Error).message.includes('permission')) {
+        this.emit('error', new Error(
+          `Permission denied reading ${devicePath}. ` +
+          `Add user to input group: sudo usermod -aG input $USER (then log out and back in)`
+        ));
+      } else {
+        this.emit('error', error as Error);
       }
     } finally {
+      if (this.devices.get(devicePath) === device) {
+        this.devices.delete(devicePath);
+      }
       if (handle) {
         try {
           await handle.close();
@@ -272,42 +267,95 @@ export class WaylandHotkeyListener extends EventEmitter implements HotkeyListene
     }
   }
 
+  /**
+   * Physical state of a key across the devices that can report it, read with
+   * `evtest --query` (EVIOCGKEY); null if evtest is missing or every query fails
+   */
+  private async queryKeyState(code: string): Promise<boolean | null> {
+    const keyCode = KEY_CODES[code];
+    if (keyCode === undefined) return null;
+
+    const rawCodes = [keyCode, ...Object.keys(KEY_CODE_ALTERNATES)
+      .map(Number)
+      .filter((alternate) => KEY_CODE_ALTERNATES[alternate] === keyCode)];
+
+    let answered = false;
+    for (const { info } of this.devices.values()) {
+      for (const rawCode of rawCodes) {
+        if (info.kind !== 'unknown' && !info.keys.has(rawCode)) continue;
+
+        const pressed = await queryEvdevKey(info.path, rawCode);
+        if (pressed === true) return true;
+        if (pressed === false) answered = true;
+      }
+    }
+
+    return answered ? false : null;
+  }
+
+  getDevices(): HotkeyDeviceStatus[] {
+    return Array.from(this.devices.values()).map(({ info, events, lastEventAt }) => ({
+      path: info.path,
+      name: info.name,
+      kind: info.kind,
+      events,
+      lastEventAt: lastEventAt ? new Date(lastEventAt).toISOString() : null,
+    }));
+  }
+
+  private handleRecovery(recovery: HotkeyRecovery, transitions: HotkeyTransition[]): void {
+    for (const transition of transitions) {
+      this.emit(transition.type === 'down' ? 'hotkey:down' : 'hotkey:up', transition.bindingId);
+    }
+    this.emit('hotkey:recovered', recovery);
+  }
+
+  setStuckKeyTimeout(timeoutMs: number, maxHoldMs: number = 0): void {
+    this.stuckKeyTimeoutMs = timeoutMs;
+    this.maxHoldMs = maxHoldMs;
+    if (this.isRunning) {
+      this.watchdog.start(timeoutMs, maxHoldMs);
+    }
+  }
+
+  captureHotkey(timeoutMs: number): Promise<string> {
+    if (!this.isRunning) {
+      return Promise.reject(new Error('Hotkey listener is not running'));
+    }
+    return this.machine.startCapture(timeoutMs);
+  }
+
   start(): void {
     if (this.isRunning) return;
     this.isRunning = true;
 
-    const devices = this.findKeyboardDevices();
+    this.abortController = new AbortController();
+    this.scanDevices();
+    this.watchDevices();
 
-    if (devices.length === 0) {
+    if (this.devices.size === 0) {
       this.emit('error', new Error(
         'No keyboard devices found in /dev/input. ' +
         'Make sure you have permission to read input devices.'
       ));
-      return;
     }
 
-    this.abortController = new AbortController();
-
-    // Start reading from all keyboard devices
-    for (const device of devices) {
-      const loop = this.readEventsFromDevice(device, this.abortController.signal);
-      this.readLoops.push(loop);
-    }
-
-    // Handle any read loop errors
-    Promise.allSettled(this.readLoops).then((results) => {
-      for (const result of results) {
-        if (result.status === 'rejected' && this.isRunning) {
-          this.emit('error', result.reason);
-        }
-      }
-    });
+    this.watchdog.start(this.stuckKeyTimeoutMs, this.maxHoldMs);
   }
 
   stop(): void {
     if (!this.isRunning) return;
     this.isRunning = false;
-    this.isHotkeyActive = false;
+    this.watchdog.stop();
+
+    if (this.watcher) {
+      this.watcher.close();
+      this.watcher = null;
+    }
+    if (this.rescanTimer) {
+      clearTimeout(this.rescanTimer);
+      this.rescanTimer = null;
+    }
 
     // Signal all read loops to stop
     if (this.abortController) {
@@ -316,29 +364,29 @@ export class WaylandHotkeyListener extends EventEmitter implements HotkeyListene
     }
 
     // Close all file handles
-    for (const handle of this.fileHandles) {
-      handle.close().catch(() => {});
+    for (const device of this.devices.values()) {
+      device.handle?.close().catch(() => {});
     }
-    this.fileHandles = [];
-    this.readLoops = [];
-
-    // Reset modifier state
-    this.modifierState = {
-      ctrl: false,
-      shift: false,
-      alt: false,
-      meta: false,
-    };
+    this.devices.clear();
+
+    // Forget held keys and cancel any capture
+    this.machine.reset();
   }
 
   setHotkey(hotkey: string): void {
-    this.hotkey = hotkey;
-    this.parsedHotkey = this.parseHotkey(hotkey);
-    this.isHotkeyActive = false;
+    this.setBindings([{ id: DEFAULT_BINDING_ID, hotkey }]);
+  }
+
+  setBindings(bindings: HotkeyBindingSpec[]): void {
+    this.hotkey = bindings[0]?.hotkey ?? '';
+    this.bindings = bindings.map((b) => ({ id: b.id, hotkey: this.parseHotkey(b.hotkey), interrupt: b.interrupt }));
+    this.machine.setBindings(this.bindings);
+    // New bindings may need devices that were skipped (e.g. a mouse)
+    this.scanDevices();
   }
 
   isPressed(): boolean {
-    return this.isHotkeyActive;
+    return this.machine.isPressed();
   }
 
   getHotkey(): string {
@@ -0,0 +1,61 @@
+/**
+ * Linux evdev key codes, shared by the Wayland hotkey listener and keystroke driver
+ * Reference: https://github.com/torvalds/linux/blob/master/include/uapi/linux/input-event-codes.h
+ */
+
+// Key names as used by the hotkey grammar and state machine
+export const KEY_CODES: Record<string, number> = {
+  // Modifiers
+  'leftctrl': 29,
+  'leftshift': 42,
+  'leftalt': 56,
+  'leftmeta': 125,
+  'rightctrl': 97,
+  'rightshift': 54,
+  'rightalt': 100,
+  'rightmeta': 126,
+  // Common keys
+  'space': 57,
+  'enter': 28,
+  'tab': 15,
+  'escape': 1,
+  'backspace': 14,
+  'capslock': 58,
+  'numlock': 69,
+  'scrolllock': 70,
+  'pause': 119,
+  'printscreen': 99,
+  'menu': 127,
+  // Navigation
+  'insert': 110, 'delete': 111, 'home': 102, 'end': 107,
+  'pageup': 104, 'pagedown': 109,
+  'up': 103, 'down': 108, 'left': 105, 'right': 106,
+  // Punctuation
+  'minus': 12, 'equal': 13, 'bracketleft': 26, 'bracketright': 27,
+  'semicolon': 39, 'quote': 40, 'backquote': 41, 'backslash': 43,
+  'comma': 51, 'period': 52, 'slash': 53,
+  // Letters
+  'a': 30, 'b': 48, 'c': 46, 'd': 32, 'e': 18, 'f': 33, 'g': 34, 'h': 35,
+  'i': 23, 'j': 36, 'k': 37, 'l': 38, 'm': 50, 'n': 49, 'o': 24, 'p': 25,
+  'q': 16, 'r': 19, 's': 31, 't': 20, 'u': 22, 'v': 47, 'w': 17, 'x': 45,
+  'y': 21, 'z': 44,
+  // Numbers
+  '1': 2, '2': 3, '3': 4, '4': 5, '5': 6, '6': 7, '7': 8, '8': 9, '9': 10, '0': 11,
+  // Function keys
+  'f1': 59, 'f2': 60, 'f3': 61, 'f4': 62, 'f5': 63, 'f6': 64,
+  'f7': 65, 'f8': 66, 'f9': 67, 'f10': 68, 'f11': 87, 'f12': 88,
+  'f13': 183, 'f14': 184, 'f15': 185, 'f16': 186, 'f17': 187, 'f18': 188,
+  'f19': 189, 'f20': 190, 'f21': 191, 'f22': 192, 'f23': 193, 'f24': 194,
+  // Media keys
+  'mute': 113,
+  'volumedown': 114,
+  'volumeup': 115,
+  'nextsong': 163,
+  'playpause': 164,
+  'previoussong': 165,
+  'stopcd': 166,
+  // Mouse buttons (left/right are left out on purpose)
+  'mousemiddle': 274,
+  'mouse4': 275,
+  'mouse5': 276,
+};
@@ -8,6 +8,8 @@ import { KeystrokeConfig } from '../config';
 
 export interface KeystrokeDriver {
   type(text: string): Promise<void>;
+  /** Press a key combination such as "Ctrl+Shift+V" */
+  sendShortcut(shortcut: string): Promise<void>;
   isAvailable(): Promise<boolean>;
 }
 
@@ -4,8 +4,33 @@
  */
 import type { KeystrokeDriver } from './index';
 
+interface NutJsKeyboard {
+  type: (text: string) => Promise<void>;
+  pressKey: (...keys: number[]) => Promise<void>;
+  releaseKey: (...keys: number[]) => Promise<void>;
+  config: { autoDelayMs: number };
+}
+
+interface NutJsModule {
+  keyboard: NutJsKeyboard;
+  Key: Record<string, number>;
+}
+
+// Shortcut modifier names mapped to nut.js Key enum names
+const MODIFIER_KEYS: Record<string, string> = {
+  ctrl: 'LeftControl',
+  control: 'LeftControl',
+  shift: 'LeftShift',
+  alt: 'LeftAlt',
+  meta: 'LeftSuper',
+  cmd: 'LeftSuper',
+  win: 'LeftSuper',
+  super: 'LeftSuper',
+};
+
 export class NutJsDriver implements KeystrokeDriver {
-  private keyboard: { type: (text: string) => Promise<void>; config: { autoDelayMs: number } } | null = null;
+  private keyboard: NutJsKeyboard | null = null;
+  private keys: Record<string, number> = {};
   private initialized: boolean = false;
 
   private async init(): Promise<void> {
@@ -14,8 +39,9 @@ export class NutJsDriver implements KeystrokeDriver {
     try {
       // Dynamic import since nut.js is an optional dependency
       // eslint-disable-next-line @typescript-eslint/no-var-requires
-      const nutjs = await (Function('return import("@nut-tree/nut-js")')() as Promise<{ keyboard: { type: (text: string) => Promise<void>; config: { autoDelayMs: number } } }>);
+      const nutjs = await (Function('return import("@nut-tree/nut-js")')() as Promise<NutJsModule>);
       this.keyboard = nutjs.keyboard;
+      this.keys = nutjs.Key;
 
       // Configure typing delay for natural typing
       this.keyboard.config.autoDelayMs = 10;
@@ -39,6 +65,27 @@ export class NutJsDriver implements KeystrokeDriver {
     await this.keyboard.type(text);
   }
 
+  async sendShortcut(shortcut: string): Promise<void> {
+    await this.init();
+
+    if (!this.keyboard) {
+      throw new Error('Keyboard not initialized');
+    }
+
+    const keys = shortcut.split('+').map((part) => {
+      const name = part.trim().toLowerCase();
+      const keyName = MODIFIER_KEYS[name] || (name.length === 1 ? name.toUpperCase() : part.trim());
+      const key = this.keys[keyName];
+      if (key === undefined) {
+        throw new Error(`Unsupported key in shortcut "${shortcut}": ${part}`);
+      }
+      return key;
+    });
+
+    await this.keyboard.pressKey(...keys);
+    await this.keyboard.releaseKey(...keys.reverse());
+  }
+
   async isAvailable(): Promise<boolean> {
     try {
       await this.init();
@@ -6,6 +6,31 @@
  */
 import { spawn, execSync } from 'child_process';
 import type { KeystrokeDriver } from './index';
+import { resolveKeyName } from '../hotkey/grammar';
+import { KEY_CODES } from '../keycodes';
+
+// Shortcut modifier names mapped to wtype modifier names and evdev key names
+const MODIFIERS: Record<string, { wtype: string; evdev: string }> = {
+  ctrl: { wtype: 'ctrl', evdev: 'leftctrl' },
+  control: { wtype: 'ctrl', evdev: 'leftctrl' },
+  shift: { wtype: 'shift', evdev: 'leftshift' },
+  alt: { wtype: 'alt', evdev: 'leftalt' },
+  meta: { wtype: 'logo', evdev: 'leftmeta' },
+  cmd: { wtype: 'logo', evdev: 'leftmeta' },
+  win: { wtype: 'logo', evdev: 'leftmeta' },
+  super: { wtype: 'logo', evdev: 'leftmeta' },
+};
+
+// wtype takes XKB keysym names, which are case-sensitive for named keys
+const WTYPE_KEYSYMS: Record<string, string> = {
+  enter: 'Return',
+  return: 'Return',
+  tab: 'Tab',
+  escape: 'Escape',
+  esc: 'Escape',
+  backspace: 'BackSpace',
+  space: 'space',
+};
 
 type WaylandBackend = 'wtype' | 'ydotool' | 'dotool';
 
@@ -125,6 +150,76 @@ export class WaylandDriver implements KeystrokeDriver {
     });
   }
 
+  async sendShortcut(shortcut: string): Promise<void> {
+    const backend = await this.detectBackend();
+
+    if (!backend) {
+      throw new Error(
+        'No Wayland keystroke backend found. Install wtype, ydotool, or dotool.'
+      );
+    }
+
+    const parts = shortcut.split('+').map((part) => part.trim().toLowerCase());
+    const modifiers = parts.filter((part) => part in MODIFIERS);
+    const keys = parts.filter((part) => !(part in MODIFIERS));
+
+    switch (backend) {
+      case 'wtype': {
+        const args: string[] = [];
+        for (const mod of modifiers) args.push('-M', MODIFIERS[mod].wtype);
+        for (const key of keys) args.push('-k', WTYPE_KEYSYMS[key] || key);
+        for (const mod of [...modifiers].reverse()) args.push('-m', MODIFIERS[mod].wtype);
+        await this.runCommand('wtype', args);
+        break;
+      }
+      case 'ydotool': {
+        // ydotool key takes raw evdev codes as <code>:<1 press|0 release>
+        const codes = parts.map((part) => {
+          const code = KEY_CODES[MODIFIERS[part]?.evdev || resolveKeyName(part) || part];
+          if (code === undefined) {
+            throw new Error(`Unsupported key in shortcut "${shortcut}": ${part}`);
+          }
+          return code;
+        });
+        const args = [
+          'key',
+          ...codes.map((code) => `${code}:1`),
+          ...[...codes].reverse().map((code) => `${code}:0`),
+        ];
+        await this.runCommand('ydotool', args);
+        break;
+      }
+      case 'dotool': {
+        const combo = [...modifiers.map((mod) => MODIFIERS[mod].wtype === 'logo' ? 'super' : MODIFIERS[mod].wtype), ...keys];
+        await this.runCommand('dotool', [], `key ${combo.join('+')}\n`);
+        break;
+      }
+    }
+  }
+
+  private runCommand(cmd: string, args: string[], input?: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const proc = spawn(cmd, args, {
+        stdio: [input !== undefined ? 'pipe' : 'ignore', 'ignore', 'ignore'],
+      });
+
+      if (input !== undefined) {
+        proc.stdin?.write(input);
+        proc.stdin?.end();
+      }
+
+      proc.on('close', (code) => {
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new Error(`${cmd} exited with code ${code}`));
+        }
+      });
+
+      proc.on('error', reject);
+    });
+  }
+
   async isAvailable(): Promise<boolean> {
     const backend = await this.detectBackend();
     return backend !== null;
@@ -3,11 +3,17 @@
  * Auto-starts hotkey listener when the MCP server loads
  */
 import * as readline from 'readline';
-import { loadConfig, PTTConfig, updateConfig } from './config';
-import { detectPlatform, getKeystrokeDriver, KeystrokeDriver } from './keystroke/index';
-import { createHotkeyListener, HotkeyListenerInterface, isWayland } from './hotkey/index';
-import { AudioRecorder } from './recorder';
-import { Transcriber } from './transcribe';
+import { listAudioDevices } from './audio-devices';
+import { RECORDER_BACKEND_NAMES, RecorderPreference } from './audio/index';
+import { BINDING_ACTIONS, BindingAction, getBindings, HotkeyBinding } from './bindings';
+import { loadConfig, PTTConfig, RecordingMode, updateConfig } from './config';
+import { DictationEngine } from './engine';
+import { detectPlatform } from './keystroke/index';
+import { normalizeHotkey } from './hotkey/grammar';
+import { isWayland } from './hotkey/index';
+import { getTransformNames } from './postprocess/index';
+import { getBackendNames } from './transcription/index';
+import { buildVocabularyPrompt } from './vocabulary';
 
 interface MCPRequest {
   jsonrpc: '2.0';
@@ -36,12 +42,60 @@ interface Tool {
   };
 }
 
-interface DaemonState {
-  isRunning: boolean;
-  isRecording: boolean;
-  isTranscribing: boolean;
-  lastError: string | null;
-  lastTranscription: string | null;
+interface NumberRange {
+  min: number;
+  max?: number;
+  integer?: boolean;
+}
+
+// Allowed values for the numeric and enum arguments of ptt_set_config
+const SET_CONFIG_NUMBERS: Record<string, NumberRange> = {
+  tapThresholdMs: { min: 0, max: 10000 },
+  stuckKeyTimeoutSec: { min: 0 },
+  serverPort: { min: 1, max: 65535, integer: true },
+  maxRecordingSec: { min: 0 },
+  chunkDurationSec: { min: 1 },
+  silenceTimeoutMs: { min: 0 },
+  pasteThreshold: { min: 0, integer: true },
+};
+
+const SET_CONFIG_ENUMS: Record<string, readonly string[]> = {
+  waylandBackend: ['wtype', 'ydotool', 'dotool'],
+  capitalization: ['none', 'sentence', 'lower'],
+  outputMethod: ['type', 'paste', 'auto'],
+};
+
+/**
+ * Check the numeric and enum arguments of ptt_set_config
+ * Returns an error message for the first invalid one, or null
+ */
+function validateSetConfigArgs(args: Record<string, unknown>): string | null {
+  for (const [name, range] of Object.entries(SET_CONFIG_NUMBERS)) {
+    const value = args[name];
+    if (value === undefined) {
+      continue;
+    }
+    if (
+      typeof value !== 'number' ||
+      !Number.isFinite(value) ||
+      value < range.min ||
+      (range.max !== undefined && value > range.max) ||
+      (range.integer && !Number.isInteger(value))
+    ) {
+      const kind = range.integer ? 'an integer' : 'a number';
+      const bounds = range.max !== undefined ? `from ${range.min} to ${range.max}` : `of at least ${range.min}`;
+      return `Invalid ${name}: ${JSON.stringify(value)}. Expected ${kind} ${bounds}`;
+    }
+  }
+
+  for (const [name, values] of Object.entries(SET_CONFIG_ENUMS)) {
+    const value = args[name];
+    if (value !== undefined && !values.includes(value as string)) {
+      return `Invalid ${name}: ${JSON.stringify(value)}. Expected ${values.join(', ')}`;
+    }
+  }
+
+  return null;
 }
 
 const TOOLS: Tool[] = [
@@ -63,32 +117,158 @@ const TOOLS: Tool[] = [
           type: 'string',
           description: 'Hotkey combination (e.g., "Ctrl+Space")',
         },
+        recordingMode: {
+          type: 'string',
+          enum: ['hold', 'toggle', 'hybrid'],
+          description: 'Recording mode: hold to talk, tap to toggle, or hybrid (short tap latches, long hold is push-to-talk)',
+        },
+        tapThresholdMs: {
+          type: 'number',
+          description: 'In hybrid mode, presses shorter than this (ms) latch recording on',
+        },
+        stuckKeyTimeoutSec: {
+          type: 'number',
+          description: 'Release hotkey keys held this long without key events if they are not physically down (0 disables)',
+        },
+        cancelHotkey: {
+          type: ['string', 'null'],
+          description: 'Hotkey that cancels the current recording or transcription (default "Escape"), null to disable',
+        },
+        bindings: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              hotkey: { type: 'string' },
+              action: { type: 'string', enum: BINDING_ACTIONS },
+            },
+            required: ['id', 'hotkey', 'action'],
+          },
+          description: 'Extra hotkeys mapped to actions (dictate, dictate-submit, dictate-clipboard, translate, cancel, retype-last); replaces the existing list',
+        },
         openaiApiKey: {
           type: 'string',
           description: 'OpenAI API key for Whisper API',
         },
+        apiBaseUrl: {
+          type: ['string', 'null'],
+          description: 'Base URL of an OpenAI-compatible transcription server (e.g., "http://localhost:8000/v1"), null for OpenAI',
+        },
+        apiModel: {
+          type: 'string',
+          description: 'Model name sent to the transcription API (default "whisper-1")',
+        },
+        apiHeaders: {
+          type: 'object',
+          additionalProperties: { type: 'string' },
+          description: 'Extra HTTP headers sent with every transcription API request; replaces the existing headers',
+        },
+        apiKeyRequired: {
+          type: 'boolean',
+          description: 'Set to false for servers that do not need an API key',
+        },
         localModelPath: {
           type: 'string',
           description: 'Path to local Whisper model',
         },
-        preferredMode: {
+        backends: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Ordered transcription backend chain, tried in turn until one succeeds (e.g., ["openai", "whisper-cli"])',
+        },
+        serverExecutable: {
           type: 'string',
-          enum: ['api', 'local'],
-          description: 'Preferred transcription mode',
+          description: 'Path to whisper.cpp whisper-server (for the whisper-server backend)',
         },
-        enableFallback: {
-          type: 'boolean',
-          description: 'Enable fallback to alternative transcription mode',
+        serverPort: {
+          type: 'number',
+          description: 'Localhost port for the managed whisper-server',
         },
         language: {
           type: 'string',
           description: 'Language code for transcription (e.g., "en")',
         },
+        audioDevice: {
+          type: ['string', 'null'],
+          description: 'Input device id from ptt_list_audio_devices, or null for the system default',
+        },
+        audioRecorder: {
+          type: 'string',
+          enum: ['auto', ...RECORDER_BACKEND_NAMES],
+          description: 'Recording tool ("auto" detects one)',
+        },
+        maxRecordingSec: {
+          type: 'number',
+          description: 'Stop recordings automatically after this many seconds (audio.maxDurationSec, 0 for no limit)',
+        },
+        chunkDurationSec: {
+          type: 'number',
+          description: 'Transcribe longer recordings in segments of at most this many seconds',
+        },
+        trimSilence: {
+          type: 'boolean',
+          description: 'Trim leading/trailing silence before transcription and skip clips with no speech',
+        },
+        silenceTimeoutMs: {
+          type: 'number',
+          description: 'In toggle mode (or after a hybrid tap), stop recording after this much silence following speech (0 to disable)',
+        },
         waylandBackend: {
           type: 'string',
-          enum: ['wtype', 'ydotool', 'dotool'],
+          enum: SET_CONFIG_ENUMS.waylandBackend,
           description: 'Backend for Wayland keystroke simulation',
         },
+        postProcessTransforms: {
+          type: 'array',
+          items: { type: 'string', enum: getTransformNames() },
+          description: 'Ordered transcript transforms to apply before output (spokenPunctuation, removeFillers, replacements, capitalize, trailingSpace)',
+        },
+        fillerWords: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Words removed by the removeFillers transform',
+        },
+        replacements: {
+          type: 'object',
+          additionalProperties: { type: 'string' },
+          description: 'Find/replace dictionary used by the replacements transform (whole words, case-insensitive); replaces the existing dictionary',
+        },
+        capitalization: {
+          type: 'string',
+          enum: SET_CONFIG_ENUMS.capitalization,
+          description: 'Capitalization rule used by the capitalize transform',
+        },
+        trailingSpace: {
+          type: 'boolean',
+          description: 'Append a space after each transcript (with the trailingSpace transform)',
+        },
+        vocabularyTerms: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Global vocabulary terms sent to Whisper as the initial prompt (e.g., ["kubectl", "tsconfig"])',
+        },
+        vocabularyPrompt: {
+          type: ['string', 'null'],
+          description: 'Free-text initial prompt sent to Whisper before the vocabulary terms',
+        },
+        includeGitContext: {
+          type: 'boolean',
+          description: 'Add the package name and identifier-like file names from the current git repository to the prompt',
+        },
+        outputMethod: {
+          type: 'string',
+          enum: SET_CONFIG_ENUMS.outputMethod,
+          description: 'How transcripts are inserted: type characters, paste via clipboard, or auto (paste when longer than pasteThreshold)',
+        },
+        pasteThreshold: {
+          type: 'number',
+          description: 'In auto output mode, paste transcripts with at least this many characters',
+        },
+        pasteShortcut: {
+          type: ['string', 'null'],
+          description: 'Paste key combination (e.g., "Ctrl+Shift+V"), null for the platform default',
+        },
       },
     },
   },
@@ -108,6 +288,119 @@ const TOOLS: Tool[] = [
       properties: {},
     },
   },
+  {
+    name: 'ptt_history_list',
+    description: 'List recent dictations from the transcription history (newest first)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        limit: {
+          type: 'number',
+          description: 'Maximum number of entries to return (default 20)',
+        },
+        offset: {
+          type: 'number',
+          description: 'Number of newest entries to skip (default 0)',
+        },
+      },
+    },
+  },
+  {
+    name: 'ptt_history_search',
+    description: 'Search the transcription history for dictations containing the given text',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Text to search for (case-insensitive)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of entries to return (default 20)',
+        },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'ptt_history_get',
+    description: 'Get a single dictation from the transcription history by id',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'History entry id',
+        },
+      },
+      required: ['id'],
+    },
+  },
+  {
+    name: 'ptt_history_retype',
+    description: 'Type a past dictation again through the keystroke driver',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'History entry id',
+        },
+      },
+      required: ['id'],
+    },
+  },
+  {
+    name: 'ptt_listen',
+    description: 'Record the user\'s voice until they stop speaking and return the transcript (instead of typing it)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        maxDurationSec: {
+          type: 'number',
+          description: 'Maximum recording length in seconds (default 60)',
+        },
+      },
+    },
+  },
+  {
+    name: 'ptt_listen_stop',
+    description: 'Stop an in-progress ptt_listen recording early and transcribe what was said',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  {
+    name: 'ptt_list_audio_devices',
+    description: 'List audio input devices; use an id as audioDevice in ptt_set_config',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  {
+    name: 'ptt_capture_hotkey',
+    description: 'Wait for the user to press a key combination and return it as a hotkey string, optionally saving it. Requires the daemon to be running',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        timeoutSec: {
+          type: 'number',
+          description: 'How long to wait for a key press in seconds (default 10)',
+        },
+        save: {
+          type: 'boolean',
+          description: 'Save the captured hotkey to config (default false)',
+        },
+        target: {
+          type: 'string',
+          description: 'What to save it as: "hotkey" (default), "cancelHotkey", or the id of an entry in bindings',
+        },
+      },
+    },
+  },
   {
     name: 'ptt_start',
     description: 'Start the PTT daemon (hotkey listener)',
@@ -128,61 +421,43 @@ const TOOLS: Tool[] = [
 
 class PTTMCPServer {
   private config: PTTConfig;
-  private hotkeyListener: HotkeyListenerInterface | null = null;
-  private recorder: AudioRecorder;
-  private transcriber: Transcriber;
-  private keystrokeDriver: KeystrokeDriver | null = null;
-  private state: DaemonState = {
-    isRunning: false,
-    isRecording: false,
-    isTranscribing: false,
-    lastError: null,
-    lastTranscription: null,
-  };
-  private cleanupInterval: NodeJS.Timeout | null = null;
+  private engine: DictationEngine;
 
   constructor() {
     this.config = loadConfig();
-    // hotkeyListener is created in startDaemon() since it needs async platform detection
-    this.recorder = new AudioRecorder({
-      sampleRate: this.config.audio.sampleRate,
-    });
-    this.transcriber = new Transcriber(this.config);
+    this.engine = new DictationEngine(this.config);
+    this.setupEngineHandlers();
   }
 
-  private setupEventHandlers(): void {
-    if (!this.hotkeyListener) return;
-
-    // Hotkey pressed - start recording
-    this.hotkeyListener.on('hotkey:down', () => {
-      this.startRecording();
-    });
-
-    // Hotkey released - stop recording and transcribe
-    this.hotkeyListener.on('hotkey:up', () => {
-      this.stopRecordingAndTranscribe();
-    });
-
-    // Hotkey error
-    this.hotkeyListener.on('error', (error: Error) => {
-      this.state.lastError = `Hotkey error: ${error.message}`;
-      this.logError(this.state.lastError);
+  private setupEngineHandlers(): void {
+    this.engine.on('state:changed', ({ to }) => {
+      if (to === 'recording') {
+        this.logStatus('Recording...');
+      } else if (to === 'transcribing') {
+        this.logStatus('Transcribing...');
+      }
     });
 
-    // Recording events
-    this.recorder.on('recording:start', () => {
-      this.state.isRecording = true;
-      this.logStatus('Recording...');
+    this.engine.on('input', (input, disposition, phase) => {
+      this.logStatus(`${input} ${disposition === 'queue' ? 'queued' : 'ignored'} while ${phase}`);
     });
 
-    this.recorder.on('recording:stop', () => {
-      this.state.isRecording = false;
+    this.engine.on('dictation', (outcome, detail) => {
+      if (outcome === 'completed' && detail) {
+        this.logStatus(`Done: "${detail.substring(0, 50)}${detail.length > 50 ? '...' : ''}"`);
+      } else if (outcome === 'cancelled') {
+        this.logStatus(detail ?? 'Cancelled');
+      } else if (detail) {
+        this.logError(detail);
+      }
     });
 
-    this.recorder.on('recording:error', (error: Error) => {
-      this.state.isRecording = false;
-      this.state.lastError = `Recording error: ${error.message}`;
-      this.logError(this.state.lastError);
+    this.engine.on('log', (level, message) => {
+      if (level === 'info') {
+        this.logStatus(message);
+      } else {
+        this.logError(level === 'warning' ? `Warning: ${message}` : message);
+      }
     });
   }
 
@@ -195,127 +470,28 @@ class PTTMCPServer {
     process.stderr.write(`[PTT ERROR] ${message}\n`);
   }
 
-  private startRecording(): void {
-    if (this.state.isRecording || this.state.isTranscribing) return;
-
-    try {
-      this.recorder.start();
-    } catch (error) {
-      this.state.lastError = `Failed to start recording: ${(error as Error).message}`;
-      this.logError(this.state.lastError);
-    }
-  }
-
-  private async stopRecordingAndTranscribe(): Promise<void> {
-    if (!this.state.isRecording) return;
-
-    try {
-      const audioPath = await this.recorder.stop();
-
-      if (!audioPath) {
-        this.state.lastError = 'No audio recorded';
-        this.logError(this.state.lastError);
-        return;
-      }
-
-      this.state.isTranscribing = true;
-      this.logStatus('Transcribing...');
-
-      const result = await this.transcriber.transcribe(audioPath);
-
-      this.state.isTranscribing = false;
-
-      if (result.text.trim()) {
-        this.state.lastTranscription = result.text.trim();
-        await this.typeText(result.text.trim());
-        this.logStatus(`Done: "${result.text.trim().substring(0, 50)}${result.text.length > 50 ? '...' : ''}"`);
-      } else {
-        this.state.lastError = 'No speech detected';
-        this.logError(this.state.lastError);
-      }
-    } catch (error) {
-      this.state.isTranscribing = false;
-      this.state.lastError = `Transcription error: ${(error as Error).message}`;
-      this.logError(this.state.lastError);
-    }
-  }
-
-  private async typeText(text: string): Promise<void> {
-    if (!this.keystrokeDriver) {
-      this.keystrokeDriver = await getKeystrokeDriver(this.config.keystroke);
-    }
-
-    const isAvailable = await this.keystrokeDriver.isAvailable();
-    if (!isAvailable) {
-      throw new Error('Keystroke driver not available');
-    }
-
-    await this.keystrokeDriver.type(text);
-  }
-
   async startDaemon(): Promise<void> {
-    if (this.state.isRunning) {
+    if (this.engine.getState().isRunning) {
       return;
     }
 
-    const onWayland = isWayland();
-    this.logStatus(`Starting PTT daemon (hotkey: ${this.config.hotkey}, platform: ${onWayland ? 'Wayland' : 'X11/native'})...`);
+    this.logStatus(`Starting PTT daemon (hotkey: ${this.config.hotkey}, platform: ${isWayland() ? 'Wayland' : 'X11/native'})...`);
 
-    // Create hotkey listener with platform-appropriate backend
     try {
-      this.hotkeyListener = await createHotkeyListener(this.config.hotkey);
-      this.setupEventHandlers();
-
-      if (onWayland) {
-        this.logStatus('Using evdev-based hotkey listener for Wayland');
-        this.logStatus('Note: User must be in "input" group for hotkey detection');
-      } else {
-        this.logStatus('Using uiohook-napi for hotkey detection');
-      }
+      await this.engine.start();
     } catch (error) {
-      this.state.lastError = `Failed to create hotkey listener: ${(error as Error).message}`;
-      this.logError(this.state.lastError);
+      this.logError((error as Error).message);
       return;
     }
 
-    // Initialize keystroke driver
-    try {
-      this.keystrokeDriver = await getKeystrokeDriver(this.config.keystroke);
-      const isAvailable = await this.keystrokeDriver.isAvailable();
-      if (!isAvailable) {
-        this.logError('Warning: Keystroke driver not available. Text will not be typed.');
-      }
-    } catch (error) {
-      this.logError(`Warning: Could not initialize keystroke driver: ${(error as Error).message}`);
-    }
-
-    // Start hotkey listener
-    this.hotkeyListener.start();
-    this.state.isRunning = true;
-
-    // Cleanup old recordings periodically
-    this.cleanupInterval = setInterval(() => {
-      this.recorder.cleanup();
-    }, 60 * 60 * 1000);
-
     this.logStatus('PTT daemon started. Press ' + this.config.hotkey + ' to record.');
   }
 
   stopDaemon(): void {
-    if (!this.state.isRunning) return;
+    if (!this.engine.getState().isRunning) return;
 
     this.logStatus('Stopping PTT daemon...');
-    if (this.hotkeyListener) {
-      this.hotkeyListener.stop();
-    }
-    this.recorder.cleanup();
-    this.state.isRunning = false;
-
-    if (this.cleanupInterval) {
-      clearInterval(this.cleanupInterval);
-      this.cleanupInterval = null;
-    }
-
+    this.engine.stop();
     this.logStatus('PTT daemon stopped.');
   }
 
@@ -406,6 +582,30 @@ class PTTMCPServer {
       case 'ptt_get_platform_info':
         return this.handleGetPlatformInfo(id);
 
+      case 'ptt_history_list':
+        return this.handleHistoryList(id, args);
+
+      case 'ptt_history_search':
+        return this.handleHistorySearch(id, args);
+
+      case 'ptt_history_get':
+        return this.handleHistoryGet(id, args);
+
+      case 'ptt_history_retype':
+        return await this.handleHistoryRetype(id, args);
+
+      case 'ptt_listen':
+        return await this.handleListen(id, args);
+
+      case 'ptt_listen_stop':
+        return this.handleListenStop(id);
+
+      case 'ptt_list_audio_devices':
+        return await this.handleListAudioDevices(id);
+
+      case 'ptt_capture_hotkey':
+        return await this.handleCaptureHotkey(id, args);
+
       case 'ptt_start':
         return await this.handleStart(id);
 
@@ -435,6 +635,9 @@ class PTTMCPServer {
         openaiApiKey: this.config.whisper.openaiApiKey
           ? '***configured***'
           : null,
+        apiHeaders: Object.fromEntries(
+          Object.keys(this.config.whisper.apiHeaders).map((name) => [name, '***configured***'])
+        ),
       },
     };
 
@@ -456,17 +659,135 @@ class PTTMCPServer {
     id: string | number,
     args: Record<string, unknown>
   ): MCPResponse {
+    const invalid = validateSetConfigArgs(args);
+    if (invalid) {
+      return {
+        jsonrpc: '2.0',
+        id,
+        error: {
+          code: -32602,
+          message: invalid,
+        },
+      };
+    }
+
     const updates: Partial<PTTConfig> = {};
 
-    if (args.hotkey !== undefined) {
-      updates.hotkey = String(args.hotkey);
+    // Hotkeys are validated and saved in canonical form
+    try {
+      if (args.hotkey !== undefined) {
+        updates.hotkey = normalizeHotkey(String(args.hotkey));
+      }
+
+      if (args.cancelHotkey !== undefined) {
+        updates.cancelHotkey = args.cancelHotkey === null ? null : normalizeHotkey(String(args.cancelHotkey));
+      }
+    } catch (error) {
+      return {
+        jsonrpc: '2.0',
+        id,
+        error: {
+          code: -32602,
+          message: `Invalid hotkey: ${(error as Error).message}`,
+        },
+      };
+    }
+
+    if (args.recordingMode !== undefined) {
+      const mode = String(args.recordingMode);
+      if (mode !== 'hold' && mode !== 'toggle' && mode !== 'hybrid') {
+        return {
+          jsonrpc: '2.0',
+          id,
+          error: {
+            code: -32602,
+            message: `Invalid recordingMode: ${mode}. Expected hold, toggle, or hybrid`,
+          },
+        };
+      }
+      updates.recordingMode = mode as RecordingMode;
+    }
+
+    if (args.tapThresholdMs !== undefined) {
+      updates.tapThresholdMs = Number(args.tapThresholdMs);
+    }
+
+    if (args.stuckKeyTimeoutSec !== undefined) {
+      updates.stuckKeyTimeoutSec = Number(args.stuckKeyTimeoutSec);
+    }
+
+    if (args.bindings !== undefined) {
+      if (!Array.isArray(args.bindings)) {
+        return {
+          jsonrpc: '2.0',
+          id,
+          error: {
+            code: -32602,
+            message: 'Invalid bindings: expected an array of { id, hotkey, action }',
+          },
+        };
+      }
+
+      const bindings: HotkeyBinding[] = [];
+      for (const entry of args.bindings as Record<string, unknown>[]) {
+        const action = String(entry?.action) as BindingAction;
+        if (!entry?.id || !entry?.hotkey || !BINDING_ACTIONS.includes(action)) {
+          return {
+            jsonrpc: '2.0',
+            id,
+            error: {
+              code: -32602,
+              message: `Invalid binding: ${JSON.stringify(entry)}. Expected { id, hotkey, action } with action one of ${BINDING_ACTIONS.join(', ')}`,
+            },
+          };
+        }
+
+        let hotkey: string;
+        try {
+          hotkey = normalizeHotkey(String(entry.hotkey));
+        } catch (error) {
+          return {
+            jsonrpc: '2.0',
+            id,
+            error: {
+              code: -32602,
+              message: `Invalid hotkey for binding "${entry.id}": ${(error as Error).message}`,
+            },
+          };
+        }
+
+        bindings.push({ id: String(entry.id), hotkey, action });
+      }
+      updates.bindings = bindings;
+    }
+
+    if (args.backends !== undefined) {
+      const available = getBackendNames();
+      const unknown = Array.isArray(args.backends)
+        ? args.backends.map(String).filter((name) => !available.includes(name))
+        : ['(not an array)'];
+      if (unknown.length > 0) {
+        return {
+          jsonrpc: '2.0',
+          id,
+          error: {
+            code: -32602,
+            message: `Invalid backends: ${unknown.join(', ')}. Available: ${available.join(', ')}`,
+          },
+        };
+      }
     }
 
     if (
       args.openaiApiKey !== undefined ||
+      args.apiBaseUrl !== undefined ||
+      args.apiModel !== undefined ||
+      args.apiHeaders !== undefined ||
+      args.apiKeyRequired !== undefined ||
       args.localModelPath !== undefined ||
-      args.preferredMode !== undefined ||
-      args.enableFallback !== undefined ||
+      args.serverExecutable !== undefined ||
+      args.serverPort !== undefined ||
+      args.backends !== undefined ||
       args.language !== undefined
     ) {
       updates.whisper = { ...this.config.whisper };
@@ -474,36 +795,167 @@ class PTTMCPServer {
       if (args.openaiApiKey !== undefined) {
         updates.whisper.openaiApiKey = args.openaiApiKey as string | null;
       }
+      if (args.apiBaseUrl !== undefined) {
+        updates.whisper.apiBaseUrl = args.apiBaseUrl ? String(args.apiBaseUrl) : null;
+      }
+      if (args.apiModel !== undefined) {
+        updates.whisper.apiModel = String(args.apiModel);
+      }
+      if (args.apiHeaders !== undefined) {
+        updates.whisper.apiHeaders = (args.apiHeaders || {}) as Record<string, string>;
+      }
+      if (args.apiKeyRequired !== undefined) {
+        updates.whisper.apiKeyRequired = Boolean(args.apiKeyRequired);
+      }
       if (args.localModelPath !== undefined) {
         updates.whisper.localModelPath = args.localModelPath as string | null;
       }
-      if (args.preferredMode !== undefined) {
-        updates.whisper.preferredMode = args.preferredMode as 'api' | 'local';
+      if (args.serverExecutable !== undefined) {
+        updates.whisper.serverExecutable = args.serverExecutable ? String(args.serverExecutable) : null;
       }
-      if (args.enableFallback !== undefined) {
-        updates.whisper.enableFallback = Boolean(args.enableFallback);
+      if (args.serverPort !== undefined) {
+        updates.whisper.serverPort = Number(args.serverPort);
+      }
+      if (args.backends !== undefined) {
+        updates.whisper.backends = (args.backends as unknown[]).map(String);
       }
       if (args.language !== undefined) {
         updates.whisper.language = String(args.language);
       }
     }
 
-    if (args.waylandBackend !== undefined) {
+    if (args.audioRecorder !== undefined) {
+      const recorder = String(args.audioRecorder);
+      if (recorder !== 'auto' && !(RECORDER_BACKEND_NAMES as string[]).includes(recorder)) {
+        return {
+          jsonrpc: '2.0',
+          id,
+          error: {
+            code: -32602,
+            message: `Invalid audioRecorder: ${recorder}. Expected auto, ${RECORDER_BACKEND_NAMES.join(', ')}`,
+          },
+        };
+      }
+    }
+
+    if (
+      args.audioDevice !== undefined ||
+      args.audioRecorder !== undefined ||
+      args.maxRecordingSec !== undefined ||
+      args.chunkDurationSec !== undefined ||
+      args.trimSilence !== undefined ||
+      args.silenceTimeoutMs !== undefined
+    ) {
+      updates.audio = { ...this.config.audio };
+
+      if (args.audioDevice !== undefined) {
+        updates.audio.device = args.audioDevice ? String(args.audioDevice) : null;
+      }
+      if (args.audioRecorder !== undefined) {
+        updates.audio.recorder = String(args.audioRecorder) as RecorderPreference;
+      }
+      if (args.maxRecordingSec !== undefined) {
+        updates.audio.maxDurationSec = Number(args.maxRecordingSec);
+      }
+      if (args.chunkDurationSec !== undefined) {
+        updates.audio.chunkDurationSec = Number(args.chunkDurationSec);
+      }
+      if (args.trimSilence !== undefined) {
+        updates.audio.trimSilence = Boolean(args.trimSilence);
+      }
+      if (args.silenceTimeoutMs !== undefined) {
+        updates.audio.silenceTimeoutMs = Number(args.silenceTimeoutMs);
+      }
+    }
+
+    if (args.waylandBackend !== undefined) {
       updates.keystroke = {
         ...this.config.keystroke,
         waylandBackend: args.waylandBackend as 'wtype' | 'ydotool' | 'dotool',
       };
     }
 
-    this.config = updateConfig(updates);
+    if (
+      args.outputMethod !== undefined ||
+      args.pasteThreshold !== undefined ||
+      args.pasteShortcut !== undefined
+    ) {
+      updates.output = { ...this.config.output };
 
-    // Update hotkey listener if hotkey changed
-    if (args.hotkey !== undefined && this.hotkeyListener) {
-      this.hotkeyListener.setHotkey(String(args.hotkey));
+      if (args.outputMethod !== undefined) {
+        updates.output.method = args.outputMethod as 'type' | 'paste' | 'auto';
+      }
+      if (args.pasteThreshold !== undefined) {
+        updates.output.pasteThreshold = Number(args.pasteThreshold);
+      }
+      if (args.pasteShortcut !== undefined) {
+        updates.output.pasteShortcut = args.pasteShortcut ? String(args.pasteShortcut) : null;
+      }
     }
 
-    // Update transcriber config
-    this.transcriber.updateConfig(this.config);
+    if (args.postProcessTransforms !== undefined) {
+      const available = getTransformNames();
+      const unknown = Array.isArray(args.postProcessTransforms)
+        ? args.postProcessTransforms.map(String).filter((name) => !available.includes(name))
+        : ['(not an array)'];
+      if (unknown.length > 0) {
+        return {
+          jsonrpc: '2.0',
+          id,
+          error: {
+            code: -32602,
+            message: `Invalid postProcessTransforms: ${unknown.join(', ')}. Available: ${available.join(', ')}`,
+          },
+        };
+      }
+    }
+
+    if (
+      args.postProcessTransforms !== undefined ||
+      args.fillerWords !== undefined ||
+      args.replacements !== undefined ||
+      args.capitalization !== undefined ||
+      args.trailingSpace !== undefined
+    ) {
+      updates.postProcess = { ...this.config.postProcess };
+
+      if (args.postProcessTransforms !== undefined) {
+        updates.postProcess.transforms = (args.postProcessTransforms as unknown[]).map(String);
+      }
+      if (args.fillerWords !== undefined) {
+        updates.postProcess.fillerWords = (args.fillerWords as unknown[]).map(String);
+      }
+      if (args.replacements !== undefined) {
+        updates.postProcess.replacements = (args.replacements || {}) as Record<string, string>;
+      }
+      if (args.capitalization !== undefined) {
+        updates.postProcess.capitalization = args.capitalization as 'none' | 'sentence' | 'lower';
+      }
+      if (args.trailingSpace !== undefined) {
+        updates.postProcess.trailingSpace = Boolean(args.trailingSpace);
+      }
+    }
+
+    if (
+      args.vocabularyTerms !== undefined ||
+      args.vocabularyPrompt !== undefined ||
+      args.includeGitContext !== undefined
+    ) {
+      updates.vocabulary = { ...this.config.vocabulary };
+
+      if (args.vocabularyTerms !== undefined) {
+        updates.vocabulary.terms = (args.vocabularyTerms as unknown[]).map(String);
+      }
+      if (args.vocabularyPrompt !== undefined) {
+        updates.vocabulary.prompt = args.vocabularyPrompt ? String(args.vocabularyPrompt) : null;
+      }
+      if (args.includeGitContext !== undefined) {
+        updates.vocabulary.includeGitContext = Boolean(args.includeGitContext);
+      }
+    }
+
+    this.config = updateConfig(updates);
+    this.engine.updateConfig(this.config);
 
     return {
       jsonrpc: '2.0',
@@ -521,23 +973,45 @@ class PTTMCPServer {
 
   private handleGetStatus(id: string | number): MCPResponse {
     const platformInfo = detectPlatform();
+    const state = this.engine.getState();
+    const audio = this.engine.getAudioStatus();
 
     const status = {
       daemon: {
-        isRunning: this.state.isRunning,
-        isRecording: this.state.isRecording,
-        isTranscribing: this.state.isTranscribing,
-        lastError: this.state.lastError,
-        lastTranscription: this.state.lastTranscription,
+        isRunning: state.isRunning,
+        phase: state.phase,
+        phaseSince: state.phaseSince,
+        phaseTimestamps: state.timestamps,
+        queued: state.queued,
+        isRecording: state.phase === 'recording',
+        isTranscribing: state.phase === 'transcribing',
+        isListening: state.isListening,
+        lastError: state.lastError,
+        lastOutcome: state.lastOutcome,
+        lastTranscription: state.lastTranscription,
       },
       configured: {
         apiKey: !!this.config.whisper.openaiApiKey || !!process.env.OPENAI_API_KEY,
+        apiBaseUrl: this.config.whisper.apiBaseUrl,
         localModel: !!this.config.whisper.localModelPath,
         whisperExecutable: !!this.config.whisper.whisperExecutable,
       },
       platform: platformInfo,
       hotkey: this.config.hotkey,
-      preferredMode: this.config.whisper.preferredMode,
+      bindings: getBindings(this.config),
+      hotkeyDevices: this.engine.getHotkeyDevices(),
+      hotkeyRecoveries: this.engine.getHotkeyRecoveries(),
+      recordingMode: this.config.recordingMode,
+      audioDevice: {
+        configured: this.config.audio.device,
+        lastUsed: audio.lastUsedDevice,
+      },
+      audioRecorder: {
+        configured: this.config.audio.recorder,
+        backend: audio.recorder,
+      },
+      backends: this.engine.getBackendStatus(),
+      vocabularyPrompt: buildVocabularyPrompt(this.config.vocabulary),
     };
 
     return {
@@ -554,8 +1028,274 @@ class PTTMCPServer {
     };
   }
 
+  private handleHistoryList(id: string | number, args: Record<string, unknown>): MCPResponse {
+    const limit = args.limit !== undefined ? Number(args.limit) : 20;
+    const offset = args.offset !== undefined ? Number(args.offset) : 0;
+    const entries = this.engine.getHistory().list(limit, offset);
+
+    return {
+      jsonrpc: '2.0',
+      id,
+      result: {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(entries, null, 2),
+          },
+        ],
+      },
+    };
+  }
+
+  private handleHistorySearch(id: string | number, args: Record<string, unknown>): MCPResponse {
+    const limit = args.limit !== undefined ? Number(args.limit) : 20;
+    const entries = this.engine.getHistory().search(String(args.query ?? ''), limit);
+
+    return {
+      jsonrpc: '2.0',
+      id,
+      result: {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(entries, null, 2),
+          },
+        ],
+      },
+    };
+  }
+
+  private handleHistoryGet(id: string | number, args: Record<string, unknown>): MCPResponse {
+    const entry = this.engine.getHistory().get(String(args.id ?? ''));
+
+    if (!entry) {
+      return {
+        jsonrpc: '2.0',
+        id,
+        error: {
+          code: -32602,
+          message: `History entry not found: ${args.id}`,
+        },
+      };
+    }
+
+    return {
+      jsonrpc: '2.0',
+      id,
+      result: {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(entry, null, 2),
+          },
+        ],
+      },
+    };
+  }
+
+  private async handleHistoryRetype(
+    id: string | number,
+    args: Record<string, unknown>
+  ): Promise<MCPResponse> {
+    const entry = this.engine.getHistory().get(String(args.id ?? ''));
+
+    if (!entry) {
+      return {
+        jsonrpc: '2.0',
+        id,
+        error: {
+          code: -32602,
+          message: `History entry not found: ${args.id}`,
+        },
+      };
+    }
+
+    const disposition = this.engine.retype(entry.text);
+
+    if (disposition === 'reject') {
+      return {
+        jsonrpc: '2.0',
+        id,
+        error: {
+          code: -32603,
+          message: `Cannot re-type while ${this.engine.getState().phase}`,
+        },
+      };
+    }
+
+    return {
+      jsonrpc: '2.0',
+      id,
+      result: {
+        content: [
+          {
+            type: 'text',
+            text: disposition === 'queue'
+              ? `Queued history entry ${entry.id}; it is typed once the current dictation finishes`
+              : `Typing history entry ${entry.id}`,
+          },
+        ],
+      },
+    };
+  }
+
+  private async handleListen(
+    id: string | number,
+    args: Record<string, unknown>
+  ): Promise<MCPResponse> {
+    const maxDurationSec = args.maxDurationSec !== undefined ? Number(args.maxDurationSec) : 60;
+
+    try {
+      const text = await this.engine.listen(maxDurationSec * 1000);
+
+      return {
+        jsonrpc: '2.0',
+        id,
+        result: {
+          content: [
+            {
+              type: 'text',
+              text: text ?? 'No speech detected',
+            },
+          ],
+        },
+      };
+    } catch (error) {
+      this.logError((error as Error).message);
+
+      return {
+        jsonrpc: '2.0',
+        id,
+        error: {
+          code: -32603,
+          message: (error as Error).message,
+        },
+      };
+    }
+  }
+
+  private async handleListAudioDevices(id: string | number): Promise<MCPResponse> {
+    try {
+      const devices = await listAudioDevices();
+
+      return {
+        jsonrpc: '2.0',
+        id,
+        result: {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ configured: this.config.audio.device, devices }, null, 2),
+            },
+          ],
+        },
+      };
+    } catch (error) {
+      return {
+        jsonrpc: '2.0',
+        id,
+        error: {
+          code: -32603,
+          message: `Failed to list audio devices: ${(error as Error).message}`,
+        },
+      };
+    }
+  }
+
+  private async handleCaptureHotkey(
+    id: string | number,
+    args: Record<string, unknown>
+  ): Promise<MCPResponse> {
+    const timeoutSec = args.timeoutSec !== undefined ? Number(args.timeoutSec) : 10;
+    const target = args.target !== undefined ? String(args.target) : 'hotkey';
+
+    if (!this.engine.getState().isRunning) {
+      return {
+        jsonrpc: '2.0',
+        id,
+        error: {
+          code: -32603,
+          message: 'PTT daemon is not running. Start it with ptt_start first.',
+        },
+      };
+    }
+
+    const isBinding = target !== 'hotkey' && target !== 'cancelHotkey';
+    if (args.save && isBinding && !this.config.bindings.some((binding) => binding.id === target)) {
+      return {
+        jsonrpc: '2.0',
+        id,
+        error: {
+          code: -32602,
+          message: `Unknown target: ${target}. Expected hotkey, cancelHotkey, or a binding id`,
+        },
+      };
+    }
+
+    this.logStatus('Waiting for a key combination...');
+
+    let hotkey: string;
+    try {
+      hotkey = await this.engine.captureHotkey(timeoutSec * 1000);
+    } catch (error) {
+      return {
+        jsonrpc: '2.0',
+        id,
+        error: {
+          code: -32603,
+          message: `Hotkey capture failed: ${(error as Error).message}`,
+        },
+      };
+    }
+
+    if (args.save) {
+      const updates = isBinding
+        ? {
+            bindings: this.config.bindings.map((binding) =>
+              binding.id === target ? { ...binding, hotkey } : binding
+            ),
+          }
+        : { [target]: hotkey };
+
+      const response = this.handleSetConfig(id, updates);
+      if (response.error) {
+        return response;
+      }
+    }
+
+    return {
+      jsonrpc: '2.0',
+      id,
+      result: {
+        content: [
+          {
+            type: 'text',
+            text: args.save ? `Captured ${hotkey} (saved as ${target})` : `Captured ${hotkey}`,
+          },
+        ],
+      },
+    };
+  }
+
+  private handleListenStop(id: string | number): MCPResponse {
+    const stopped = this.engine.stopListen();
+
+    return {
+      jsonrpc: '2.0',
+      id,
+      result: {
+        content: [
+          {
+            type: 'text',
+            text: stopped ? 'Listening stopped' : 'Not listening',
+          },
+        ],
+      },
+    };
+  }
+
   private async handleStart(id: string | number): Promise<MCPResponse> {
-    if (this.state.isRunning) {
+    if (this.engine.getState().isRunning) {
       return {
         jsonrpc: '2.0',
         id,
@@ -587,7 +1327,7 @@ class PTTMCPServer {
   }
 
   private handleStop(id: string | number): MCPResponse {
-    if (!this.state.isRunning) {
+    if (!this.engine.getState().isRunning) {
       return {
         jsonrpc: '2.0',
         id,
@@ -0,0 +1,70 @@
+/**
+ * Text output for transcripts
+ * Types text through the keystroke driver, or pastes it via the clipboard
+ * (faster for long dictations and safe for non-ASCII text and keyboard layouts).
+ */
+import type { OutputConfig } from './config';
+import type { KeystrokeDriver } from './keystroke/index';
+import { getClipboardDriver } from './clipboard/index';
+
+// Give the focused app time to read the clipboard before restoring it
+const RESTORE_DELAY_MS = 250;
+
+export function getDefaultPasteShortcut(): string {
+  if (process.platform === 'darwin') return 'Cmd+V';
+  if (process.platform === 'win32') return 'Ctrl+V';
+  // Linux terminal emulators paste with Ctrl+Shift+V
+  return 'Ctrl+Shift+V';
+}
+
+export function shouldPaste(text: string, config: OutputConfig): boolean {
+  switch (config.method) {
+    case 'type':
+      return false;
+    case 'paste':
+      return true;
+    case 'auto':
+      return text.length >= config.pasteThreshold;
+  }
+}
+
+export async function pasteText(
+  text: string,
+  keystrokeDriver: KeystrokeDriver,
+  config: OutputConfig
+): Promise<void> {
+  const clipboard = getClipboardDriver();
+
+  if (!clipboard.isAvailable()) {
+    throw new Error(`Clipboard tool not available: ${clipboard.name}`);
+  }
+
+  const previous = config.restoreClipboard ? await clipboard.read() : null;
+
+  await clipboard.write(text);
+  await keystrokeDriver.sendShortcut(config.pasteShortcut || getDefaultPasteShortcut());
+
+  if (previous !== null) {
+    await new Promise((resolve) => setTimeout(resolve, RESTORE_DELAY_MS));
+    await clipboard.write(previous);
+  }
+}
+
+export async function outputText(
+  text: string,
+  keystrokeDriver: KeystrokeDriver,
+  config: OutputConfig
+): Promise<void> {
+  if (!shouldPaste(text, config)) {
+    await keystrokeDriver.type(text);
+    return;
+  }
+
+  try {
+    await pasteText(text, keystrokeDriver, config);
+  } catch (error) {
+    // In auto mode typing is always a valid fallback
+    if (config.method !== 'auto') throw error;
+    await keystrokeDriver.type(text);
+  }
+}
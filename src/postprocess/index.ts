@@ -0,0 +1,41 @@
+/**
+ * Transcript post-processing pipeline
+ * Runs the transforms named in `postProcess.transforms`, in order, on the
+ * transcript before it is typed or returned.
+ */
+import type { PostProcessConfig } from '../config';
+import {
+  capitalize,
+  removeFillers,
+  replacements,
+  spokenPunctuation,
+  trailingSpace,
+  Transform,
+} from './transforms';
+
+export type { Transform } from './transforms';
+
+const TRANSFORMS: Record<string, Transform> = {
+  spokenPunctuation,
+  removeFillers,
+  replacements,
+  capitalize,
+  trailingSpace,
+};
+
+export function getTransformNames(): string[] {
+  return Object.keys(TRANSFORMS);
+}
+
+export function processTranscript(text: string, config: PostProcessConfig): string {
+  let result = text.trim();
+
+  for (const name of config.transforms) {
+    const transform = TRANSFORMS[name];
+    if (transform) {
+      result = transform(result, config);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,151 @@
+/**
+ * Transcript transforms
+ * Each transform is a pure function of the text and the post-processing config,
+ * so they can be run (and tested) on their own.
+ */
+import type { PostProcessConfig } from '../config';
+
+export type Transform = (text: string, config: PostProcessConfig) => string;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+const CLOSING_PUNCTUATION: Array<[string[], string]> = [
+  [['period', 'full stop'], '.'],
+  [['comma'], ','],
+  [['question mark'], '?'],
+  [['exclamation mark', 'exclamation point'], '!'],
+  [['colon'], ':'],
+  [['semicolon'], ';'],
+  [['close paren', 'close parenthesis', 'right paren'], ')'],
+  [['close bracket', 'right bracket'], ']'],
+  [['close brace', 'right brace'], '}'],
+  [['close quote', 'end quote'], '"'],
+];
+
+const OPENING_PUNCTUATION: Array<[string[], string]> = [
+  [['open paren', 'open parenthesis', 'left paren'], '('],
+  [['open bracket', 'left bracket'], '['],
+  [['open brace', 'left brace'], '{'],
+  [['open quote', 'begin quote'], '"'],
+];
+
+const LINE_BREAKS: Array<[string[], string]> = [
+  [['new paragraph'], '\n\n'],
+  [['new line', 'newline', 'next line'], '\n'],
+];
+
+interface SpokenCommand {
+  symbol: string;
+  // Closing symbols attach to the previous word, the others to the next one
+  kind: 'closing' | 'opening' | 'break';
+}
+
+const SPOKEN_COMMANDS = new Map<string, SpokenCommand>([
+  ...CLOSING_PUNCTUATION.flatMap(([phrases, symbol]) => phrases.map((p) => [p, { symbol, kind: 'closing' }] as const)),
+  ...OPENING_PUNCTUATION.flatMap(([phrases, symbol]) => phrases.map((p) => [p, { symbol, kind: 'opening' }] as const)),
+  ...LINE_BREAKS.flatMap(([phrases, symbol]) => phrases.map((p) => [p, { symbol, kind: 'break' }] as const)),
+]);
+
+/**
+ * "new line", "period", "open paren" etc. become the symbols they name
+ * Only phrases said as a command, i.e. a whole clause on their own
+ * ("Hello, comma, world."), are converted, so "the period of time" is left
+ * alone. The commas and period Whisper puts around a command are dropped;
+ * other punctuation is kept.
+ */
+export const spokenPunctuation: Transform = (text) => {
+  // Clauses alternate with the punctuation (or line break) between them
+  const parts = text.split(/([,.!?;:\n])/);
+  let result = '';
+  // Punctuation after the last clause, held back in case a command replaces it
+  let pending = '';
+  let attachNext = false;
+
+  for (let i = 0; i < parts.length; i += 2) {
+    const clause = parts[i];
+    const next = parts[i + 1] ?? '';
+    const command = SPOKEN_COMMANDS.get(clause.trim().toLowerCase().replace(/\s+/g, ' '));
+
+    if (!command) {
+      result += pending + (attachNext ? clause.replace(/^[ \t]+/, '') : clause);
+      pending = next;
+      attachNext = false;
+      continue;
+    }
+
+    const replacesPending = pending === ',' || pending === command.symbol ||
+      (pending === '.' && command.kind === 'closing' && /^[.,?!:;]$/.test(command.symbol));
+    result += replacesPending ? '' : pending;
+
+    if (command.kind === 'opening') {
+      result += clause.match(/^[ \t]*/)![0];
+    } else {
+      result = result.replace(/[ \t]+$/, '');
+    }
+    result += command.symbol;
+
+    pending = next === ',' || next === '.' ? '' : next;
+    attachNext = command.kind !== 'closing';
+  }
+
+  return result + pending;
+};
+
+/**
+ * Remove hesitation words such as "um" and "uh" along with their trailing comma
+ */
+export const removeFillers: Transform = (text, config) => {
+  if (config.fillerWords.length === 0) return text;
+
+  const pattern = new RegExp(
+    `\\b(?:${config.fillerWords.map(escapeRegExp).join('|')})\\b[,.]?[ \\t]*`,
+    'gi'
+  );
+
+  return text
+    .replace(pattern, '')
+    .replace(/[ \t]{2,}/g, ' ')
+    .replace(/[ \t]+([,.!?;:])/g, '$1')
+    .trim();
+};
+
+/**
+ * Whole-word, case-insensitive find/replace from `replacements`
+ */
+export const replacements: Transform = (text, config) => {
+  let result = text;
+
+  for (const [find, replace] of Object.entries(config.replacements)) {
+    if (!find) continue;
+    const pattern = new RegExp(`(?<!\\w)${escapeRegExp(find)}(?!\\w)`, 'gi');
+    result = result.replace(pattern, () => replace);
+  }
+
+  return result;
+};
+
+/**
+ * Apply `capitalization`: sentence case, all lower case, or leave as is
+ */
+export const capitalize: Transform = (text, config) => {
+  switch (config.capitalization) {
+    case 'lower':
+      return text.toLowerCase();
+    case 'sentence':
+      return text.replace(/(^\s*|[.!?]\s+|\n\s*)([a-z])/g, (_, prefix: string, letter: string) =>
+        prefix + letter.toUpperCase()
+      );
+    case 'none':
+      return text;
+  }
+};
+
+/**
+ * Append a space so consecutive dictations don't run together
+ */
+export const trailingSpace: Transform = (text, config) => {
+  if (!config.trailingSpace || text.length === 0 || /\s$/.test(text)) return text;
+  return text + ' ';
+};
@@ -1,17 +1,37 @@
 /**
  * Audio recorder using Node.js child_process to capture audio
- * Uses system tools (arecord on Linux, sox on macOS, etc.)
+ * Uses a recorder backend (parecord, pw-record, ffmpeg or arecord on Linux,
+ * sox on macOS/Windows; see audio/index.ts) writing raw PCM to stdout, which is buffered in memory and exposed as a stream and as
+ * 'audio:chunk' events. The WAV container is built in-process.
+ *
+ * A specific input device can be configured; if it fails to open (unplugged,
+ * renamed) the recording is restarted on the default device.
  */
 import { EventEmitter } from 'events';
 import { spawn, ChildProcess } from 'child_process';
+import { PassThrough, Readable } from 'stream';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import { encodeWav, WavFormat } from './wav';
+import { detectRecorderBackend, RecorderBackend, RecorderPreference } from './audio/index';
 
 export interface RecorderConfig {
   sampleRate: number;
   channels: number;
   bitDepth: number;
+  // Input device id from `ptt_list_audio_devices`; null for the system default
+  device: string | null;
+  // Recorder backend, or 'auto' to detect one
+  backend: RecorderPreference;
+  // 'recording:limit' is emitted after this long; 0 for no limit
+  maxDurationMs: number;
+}
+
+export interface RecordingResult {
+  pcm: Buffer;
+  format: WavFormat;
+  durationMs: number;
 }
 
 export class AudioRecorder extends EventEmitter {
@@ -19,7 +39,18 @@ export class AudioRecorder extends EventEmitter {
   private recordProcess: ChildProcess | null = null;
   private isRecording: boolean = false;
   private tempDir: string;
-  private currentFile: string = '';
+  private chunks: Buffer[] = [];
+  private stream: PassThrough | null = null;
+  // Device the current recording is using (null for the default)
+  private activeDevice: string | null = null;
+  // Error lines the tool printed, reported if it exits unexpectedly
+  private errorOutput: string = '';
+  // Resolved lazily so detection only runs when recording
+  private backend: RecorderBackend | null = null;
+  private limitTimer: NodeJS.Timeout | null = null;
+  // Pending stop(); the next recording can't start until it has finished,
+  // so this is always the current recording's result
+  private stopping: Promise<RecordingResult> | null = null;
 
   constructor(config: Partial<RecorderConfig> = {}) {
     super();
@@ -27,128 +58,196 @@ export class AudioRecorder extends EventEmitter {
       sampleRate: config.sampleRate || 16000,
       channels: config.channels || 1,
       bitDepth: config.bitDepth || 16,
+      device: config.device || null,
+      backend: config.backend || 'auto',
+      maxDurationMs: config.maxDurationMs || 0,
     };
     this.tempDir = path.join(os.tmpdir(), 'claude-ptt');
+  }
 
-    if (!fs.existsSync(this.tempDir)) {
-      fs.mkdirSync(this.tempDir, { recursive: true });
+  getFormat(): WavFormat {
+    const { sampleRate, channels, bitDepth } = this.config;
+    return { sampleRate, channels, bitDepth };
+  }
+
+  /**
+   * Input device for the next recording (null for the system default)
+   */
+  setDevice(device: string | null): void {
+    this.config.device = device || null;
+  }
+
+  /**
+   * Recorder backend for the next recording ('auto' to detect)
+   */
+  setBackend(backend: RecorderPreference): void {
+    if (backend !== this.config.backend) {
+      this.config.backend = backend;
+      this.backend = null;
     }
   }
 
-  private getRecordCommand(): { cmd: string; args: string[] } {
-    const platform = process.platform;
-    const { sampleRate, channels, bitDepth } = this.config;
-    this.currentFile = path.join(this.tempDir, `recording-${Date.now()}.wav`);
-
-    if (platform === 'linux') {
-      // Use arecord (ALSA) on Linux
-      return {
-        cmd: 'arecord',
-        args: [
-          '-f', bitDepth === 16 ? 'S16_LE' : 'S32_LE',
-          '-r', String(sampleRate),
-          '-c', String(channels),
-          '-t', 'wav',
-          this.currentFile,
-        ],
-      };
-    } else if (platform === 'darwin') {
-      // Use sox on macOS
-      return {
-        cmd: 'sox',
-        args: [
-          '-d',  // default audio device
-          '-r', String(sampleRate),
-          '-c', String(channels),
-          '-b', String(bitDepth),
-          this.currentFile,
-        ],
-      };
-    } else if (platform === 'win32') {
-      // Use sox on Windows (requires sox to be installed)
-      return {
-        cmd: 'sox',
-        args: [
-          '-t', 'waveaudio', 'default',
-          '-r', String(sampleRate),
-          '-c', String(channels),
-          '-b', String(bitDepth),
-          this.currentFile,
-        ],
-      };
+  /**
+   * Backend in use, detecting it if needed
+   */
+  getBackend(): RecorderBackend {
+    if (!this.backend) {
+      this.backend = detectRecorderBackend(this.config.backend);
     }
+    return this.backend;
+  }
 
-    throw new Error(`Unsupported platform: ${platform}`);
+  /**
+   * Device the current (or last) recording used
+   */
+  getActiveDevice(): string | null {
+    return this.activeDevice;
   }
 
+  /**
+   * Start a new recording; throws if one is still running or stopping
+   * (failures to launch the tool are reported with 'recording:error')
+   */
   start(): void {
     if (this.isRecording) {
-      return;
+      throw new Error('A recording is already in progress');
+    }
+    if (this.stopping) {
+      throw new Error('The previous recording is still stopping');
+    }
+
+    this.chunks = [];
+    this.stream = new PassThrough();
+    this.isRecording = true;
+
+    if (this.spawnRecorder(this.config.device)) {
+      this.emit('recording:start');
+      this.startLimitTimer();
     }
+  }
+
+  /**
+   * Guard against recordings that never get stopped (e.g. a missed key-up);
+   * the owner decides how to stop and what to do with the audio
+   */
+  private startLimitTimer(): void {
+    const { maxDurationMs } = this.config;
+    if (maxDurationMs <= 0) return;
 
+    this.limitTimer = setTimeout(() => {
+      this.limitTimer = null;
+      if (this.isRecording) {
+        this.emit('recording:limit', maxDurationMs);
+      }
+    }, maxDurationMs);
+  }
+
+  /**
+   * Maximum duration for the next recording (0 for no limit)
+   */
+  setMaxDuration(maxDurationMs: number): void {
+    this.config.maxDurationMs = Math.max(0, maxDurationMs);
+  }
+
+  private spawnRecorder(device: string | null): boolean {
     try {
-      const { cmd, args } = this.getRecordCommand();
+      const backend = this.getBackend();
+
+      if (device && !backend.supportsDevice(device)) {
+        this.emit('recording:fallback', device, `not supported by ${backend.name}`);
+        device = null;
+      }
+
+      const { cmd, args, env } = backend.getCommand(this.getFormat(), device);
 
-      this.recordProcess = spawn(cmd, args, {
+      const proc = spawn(cmd, args, {
         stdio: ['ignore', 'pipe', 'pipe'],
+        env,
       });
+      this.recordProcess = proc;
+      this.activeDevice = device;
+      this.errorOutput = '';
 
-      this.isRecording = true;
-      this.emit('recording:start');
-
-      this.recordProcess.on('error', (error) => {
+      proc.on('error', (error) => {
+        if (this.recordProcess !== proc) return;
         this.isRecording = false;
+        this.recordProcess = null;
+        this.endStream();
         this.emit('recording:error', error);
       });
 
-      this.recordProcess.stderr?.on('data', (data) => {
-        // arecord outputs to stderr, this is normal
+      proc.stdout?.on('data', (chunk: Buffer) => {
+        this.chunks.push(chunk);
+        this.stream?.write(chunk);
+        this.emit('audio:chunk', chunk);
+      });
+
+      // Only an exit ends the recording; error output is kept for the report
+      // (or the fallback to the default device) and the tool keeps running
+      proc.stderr?.on('data', (data) => {
         const output = data.toString();
         if (output.includes('error') || output.includes('Error')) {
-          this.emit('recording:error', new Error(output));
+          this.errorOutput = (this.errorOutput + output).slice(-2000);
         }
       });
 
-      this.recordProcess.on('close', (code) => {
-        if (this.isRecording) {
-          this.isRecording = false;
+      proc.on('close', (code) => {
+        // Recording tool exited on its own (device lost, etc.)
+        if (this.isRecording && this.recordProcess === proc) {
+          if (device && code !== 0 && this.chunks.length === 0) {
+            this.emit('recording:fallback', device, this.errorOutput.trim() || `exit code ${code}`);
+            this.spawnRecorder(null);
+            return;
+          }
+
           if (code === 0 || code === null) {
-            this.emit('recording:stop', this.currentFile);
+            this.finishRecording();
+          } else {
+            this.isRecording = false;
+            this.recordProcess = null;
+            this.endStream();
+            this.emit('recording:error', new Error(this.errorOutput.trim() || `${backend.name} exited with code ${code}`));
           }
         }
       });
+
+      return true;
     } catch (error) {
       this.isRecording = false;
+      this.endStream();
       this.emit('recording:error', error as Error);
+      return false;
     }
   }
 
-  async stop(): Promise<string> {
+  /**
+   * Stop the current recording; concurrent calls share one result.
+   * Resolves with an empty result if nothing is recording.
+   */
+  stop(): Promise<RecordingResult> {
+    if (this.stopping) {
+      return this.stopping;
+    }
+
     if (!this.isRecording || !this.recordProcess) {
-      return '';
+      return Promise.resolve({ pcm: Buffer.alloc(0), format: this.getFormat(), durationMs: 0 });
     }
 
     const proc = this.recordProcess;
+    // Clear the flag first so the 'close' handler leaves the result to us
+    this.isRecording = false;
 
-    return new Promise((resolve, reject) => {
-      const filePath = this.currentFile;
-
-      const onClose = () => {
-        this.isRecording = false;
-        this.recordProcess = null;
-
-        // Wait a bit for file to be written
-        setTimeout(() => {
-          if (fs.existsSync(filePath)) {
-            this.emit('recording:stop', filePath);
-            resolve(filePath);
-          } else {
-            reject(new Error('Recording file not found'));
-          }
-        }, 100);
-      };
+    this.stopping = new Promise<RecordingResult>((resolve) => {
+      const killTimer = setTimeout(() => {
+        proc.kill('SIGKILL');
+      }, 2000);
 
-      proc.once('close', onClose);
+      // 'close' fires after stdout has been fully drained
+      proc.once('close', () => {
+        clearTimeout(killTimer);
+        this.stopping = null;
+        resolve(this.finishRecording());
+      });
 
       // Send SIGINT to stop recording gracefully
       if (process.platform === 'win32') {
@@ -156,22 +255,72 @@ export class AudioRecorder extends EventEmitter {
       } else {
         proc.kill('SIGINT');
       }
-
-      // Timeout if process doesn't close
-      setTimeout(() => {
-        if (this.recordProcess) {
-          this.recordProcess.kill('SIGKILL');
-        }
-      }, 2000);
     });
+
+    return this.stopping;
+  }
+
+  /**
+   * The only place 'recording:stop' is emitted, whether the recording was
+   * stopped or the tool exited on its own
+   */
+  private finishRecording(): RecordingResult {
+    this.isRecording = false;
+    this.recordProcess = null;
+    this.endStream();
+
+    const result = this.getResult();
+    this.emit('recording:stop', result);
+    return result;
+  }
+
+  private getResult(): RecordingResult {
+    const pcm = Buffer.concat(this.chunks);
+    const { sampleRate, channels, bitDepth } = this.config;
+    const bytesPerSecond = sampleRate * channels * (bitDepth / 8);
+
+    return {
+      pcm,
+      format: this.getFormat(),
+      durationMs: Math.round((pcm.length / bytesPerSecond) * 1000),
+    };
+  }
+
+  private endStream(): void {
+    if (this.limitTimer) {
+      clearTimeout(this.limitTimer);
+      this.limitTimer = null;
+    }
+
+    if (this.stream) {
+      this.stream.end();
+      this.stream = null;
+    }
+  }
+
+  /**
+   * Live PCM stream for the current recording; ends when recording stops
+   */
+  getStream(): Readable | null {
+    return this.stream;
   }
 
   getIsRecording(): boolean {
     return this.isRecording;
   }
 
+  /**
+   * Write a recording to disk as a WAV file (only when a file is needed)
+   */
+  saveToFile(result: RecordingResult, filePath?: string): string {
+    const target = filePath || path.join(this.tempDir, `recording-${Date.now()}.wav`);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, encodeWav(result.pcm, result.format));
+    return target;
+  }
+
   cleanup(): void {
-    // Clean up temp files older than 1 hour
+    // Clean up saved recordings older than 1 hour
     if (fs.existsSync(this.tempDir)) {
       const files = fs.readdirSync(this.tempDir);
       const oneHourAgo = Date.now() - 60 * 60 * 1000;
@@ -0,0 +1,82 @@
+/**
+ * Recording mode handling
+ * Translates raw hotkey down/up events into start/stop recording actions
+ * - hold: record while the hotkey is held (classic push-to-talk)
+ * - toggle: tap once to start, tap again to stop
+ * - hybrid: a short tap latches recording on, a long hold behaves like push-to-talk
+ */
+import type { RecordingMode } from './config';
+
+export type RecordingAction = 'start' | 'stop' | null;
+
+export class RecordingModeHandler {
+  private mode: RecordingMode;
+  private tapThresholdMs: number;
+  private pressStartedAt: number | null = null;
+  private pressStartedRecording: boolean = false;
+
+  constructor(mode: RecordingMode = 'hold', tapThresholdMs: number = 300) {
+    this.mode = mode;
+    this.tapThresholdMs = tapThresholdMs;
+  }
+
+  setMode(mode: RecordingMode, tapThresholdMs: number = this.tapThresholdMs): void {
+    this.mode = mode;
+    this.tapThresholdMs = tapThresholdMs;
+    this.reset();
+  }
+
+  getMode(): RecordingMode {
+    return this.mode;
+  }
+
+  onHotkeyDown(isRecording: boolean): RecordingAction {
+    this.pressStartedAt = Date.now();
+    this.pressStartedRecording = !isRecording;
+
+    switch (this.mode) {
+      case 'hold':
+        return isRecording ? null : 'start';
+      case 'toggle':
+      case 'hybrid':
+        // A press while latched always ends the recording
+        return isRecording ? 'stop' : 'start';
+    }
+  }
+
+  onHotkeyUp(isRecording: boolean): RecordingAction {
+    const pressStartedAt = this.pressStartedAt;
+    const pressStartedRecording = this.pressStartedRecording;
+    this.reset();
+
+    if (!isRecording) return null;
+
+    switch (this.mode) {
+      case 'hold':
+        return 'stop';
+      case 'toggle':
+        return null;
+      case 'hybrid': {
+        // The release of the press that stopped a latched recording is ignored
+        if (!pressStartedRecording || pressStartedAt === null) return null;
+
+        const heldMs = Date.now() - pressStartedAt;
+        // Short tap latches recording on, long hold stops on release
+        return heldMs < this.tapThresholdMs ? null : 'stop';
+      }
+    }
+  }
+
+  /**
+   * True when recording continues without the hotkey held:
+   * after a toggle tap or a hybrid short tap
+   */
+  isLatched(): boolean {
+    return this.mode !== 'hold' && this.pressStartedAt === null;
+  }
+
+  reset(): void {
+    this.pressStartedAt = null;
+    this.pressStartedRecording = false;
+  }
+}
@@ -1,171 +1,187 @@
 /**
  * Whisper transcription module
- * Supports both OpenAI API and local whisper.cpp
- * Documentation: https://github.com/openai/openai-node
+ * Runs the configured backends from the registry in `whisper.backends` order,
+ * falling back to the next one when a backend is not configured or fails.
  */
-import OpenAI from 'openai';
-import * as fs from 'fs';
-import { spawn } from 'child_process';
-import { PTTConfig, getOpenAIKey } from './config';
-
-export interface TranscriptionResult {
-  text: string;
-  language?: string;
-  duration?: number;
-  source: 'api' | 'local';
+import { joinTranscripts, splitPcm } from './chunking';
+import type { PTTConfig } from './config';
+import {
+  BackendCapabilities,
+  createBackend,
+  getBackendNames,
+  TranscriptionBackend,
+  TranscriptionResult,
+} from './transcription/index';
+import { buildVocabularyPrompt } from './vocabulary';
+import { encodeWav, WAV_HEADER_SIZE, WavFormat } from './wav';
+
+export type { TranscriptionResult } from './transcription/index';
+
+export interface BackendStatus {
+  name: string;
+  configured: boolean;
+  enabled: boolean;
+  capabilities: BackendCapabilities;
 }
 
 export class Transcriber {
   private config: PTTConfig;
-  private openaiClient: OpenAI | null = null;
+  private backends: Map<string, TranscriptionBackend> = new Map();
 
   constructor(config: PTTConfig) {
     this.config = config;
-    this.initOpenAI();
+    this.initBackends();
   }
 
-  private initOpenAI(): void {
-    const apiKey = getOpenAIKey(this.config);
-    if (apiKey) {
-      this.openaiClient = new OpenAI({ apiKey });
+  private initBackends(): void {
+    this.shutdown();
+    this.backends.clear();
+    for (const name of getBackendNames()) {
+      this.backends.set(name, createBackend(name, this.config));
     }
   }
 
   updateConfig(config: PTTConfig): void {
     this.config = config;
-    this.initOpenAI();
-  }
-
-  async transcribe(audioPath: string): Promise<TranscriptionResult> {
-    const { preferredMode, enableFallback } = this.config.whisper;
 
-    if (preferredMode === 'api') {
-      try {
-        return await this.transcribeWithAPI(audioPath);
-      } catch (error) {
-        if (enableFallback && this.config.whisper.localModelPath) {
-          console.error('API transcription failed, falling back to local:', error);
-          return await this.transcribeLocal(audioPath);
-        }
-        throw error;
-      }
-    } else {
-      try {
-        return await this.transcribeLocal(audioPath);
-      } catch (error) {
-        if (enableFallback && getOpenAIKey(this.config)) {
-          console.error('Local transcription failed, falling back to API:', error);
-          return await this.transcribeWithAPI(audioPath);
-        }
-        throw error;
+    for (const name of getBackendNames()) {
+      const backend = this.backends.get(name);
+      if (backend?.updateConfig) {
+        backend.updateConfig(config);
+      } else {
+        backend?.shutdown?.();
+        this.backends.set(name, createBackend(name, config));
       }
     }
   }
 
-  private async transcribeWithAPI(audioPath: string): Promise<TranscriptionResult> {
-    const apiKey = getOpenAIKey(this.config);
-    if (!apiKey) {
-      throw new Error('OpenAI API key not configured');
-    }
+  /**
+   * Transcribe raw PCM, splitting recordings longer than `audio.chunkDurationSec`
+   * or larger than an enabled backend's upload limit into segments
+   */
+  async transcribePcm(
+    pcm: Buffer,
+    format: WavFormat,
+    options: { translate?: boolean; signal?: AbortSignal } = {}
+  ): Promise<TranscriptionResult> {
+    const chunks = splitPcm(pcm, format, {
+      maxChunkMs: this.config.audio.chunkDurationSec * 1000,
+      maxChunkBytes: this.getMaxAudioBytes() - WAV_HEADER_SIZE,
+    });
 
-    if (!this.openaiClient) {
-      this.openaiClient = new OpenAI({ apiKey });
-    }
+    // Built once per recording rather than once per segment
+    const prompt = buildVocabularyPrompt(this.config.vocabulary) ?? undefined;
 
-    const audioFile = fs.createReadStream(audioPath);
+    if (chunks.length === 1) {
+      return this.transcribe(encodeWav(pcm, format), prompt, options);
+    }
 
-    const transcription = await this.openaiClient.audio.transcriptions.create({
-      file: audioFile,
-      model: 'whisper-1',
-      language: this.config.whisper.language,
-      response_format: 'verbose_json',
-    });
+    const results: TranscriptionResult[] = [];
+    for (const chunk of chunks) {
+      results.push(await this.transcribe(encodeWav(chunk, format), prompt, options));
+    }
 
     return {
-      text: transcription.text,
-      language: transcription.language,
-      duration: transcription.duration,
-      source: 'api',
+      text: joinTranscripts(results.map((result) => result.text)),
+      language: results[0].language,
+      source: Array.from(new Set(results.map((result) => result.source))).join(', '),
     };
   }
 
-  private async transcribeLocal(audioPath: string): Promise<TranscriptionResult> {
-    const { localModelPath, whisperExecutable } = this.config.whisper;
-
-    if (!localModelPath && !whisperExecutable) {
-      throw new Error('Local Whisper not configured. Set localModelPath and/or whisperExecutable.');
+  /**
+   * Smallest upload limit in the backend chain, so any fallback can take a segment
+   */
+  private getMaxAudioBytes(): number {
+    let limit = Infinity;
+    for (const name of this.config.whisper.backends) {
+      const maxAudioBytes = this.backends.get(name)?.capabilities.maxAudioBytes;
+      if (maxAudioBytes !== undefined) {
+        limit = Math.min(limit, maxAudioBytes);
+      }
     }
+    return limit;
+  }
 
-    // If we have an executable configured, use it with the model
-    if (whisperExecutable) {
-      return await this.transcribeWithWhisperCli(audioPath, whisperExecutable, localModelPath);
+  private async transcribe(
+    audio: Buffer,
+    prompt: string | undefined,
+    options: { translate?: boolean; signal?: AbortSignal }
+  ): Promise<TranscriptionResult> {
+    const chain = this.config.whisper.backends;
+    const failures: string[] = [];
+
+    if (chain.length === 0) {
+      throw new Error('No transcription backends enabled. Set whisper.backends in config.');
     }
 
-    // If only model path is set, try to find whisper-cli in PATH
-    return await this.transcribeWithWhisperCli(audioPath, 'whisper-cli', localModelPath);
-  }
+    for (const name of chain) {
+      if (options.signal?.aborted) {
+        throw new Error('Transcription cancelled');
+      }
 
-  private async transcribeWithWhisperCli(
-    audioPath: string,
-    executablePath: string,
-    modelPath: string | null
-  ): Promise<TranscriptionResult> {
-    return new Promise((resolve, reject) => {
-      const args: string[] = [];
+      const backend = this.backends.get(name);
+
+      if (!backend) {
+        failures.push(`${name}: unknown backend`);
+        continue;
+      }
+
+      if (!backend.isConfigured()) {
+        failures.push(`${name}: not configured`);
+        continue;
+      }
 
-      // Add model path if specified
-      if (modelPath) {
-        args.push('-m', modelPath);
+      if (options.translate && !backend.capabilities.translate) {
+        failures.push(`${name}: translation not supported`);
+        continue;
       }
 
-      args.push(
-        '-f', audioPath,
-        '-l', this.config.whisper.language,
-        '--no-timestamps',
-        '--no-prints'  // Suppress progress output
-      );
-
-      const proc = spawn(executablePath, args);
-      let stdout = '';
-      let stderr = '';
-
-      proc.stdout.on('data', (data) => {
-        stdout += data.toString();
-      });
-
-      proc.stderr.on('data', (data) => {
-        stderr += data.toString();
-      });
-
-      proc.on('close', (code) => {
-        if (code === 0) {
-          // Clean up the output - whisper-cli outputs the transcription
-          const text = stdout
-            .split('\n')
-            .filter(line => !line.startsWith('[') && line.trim())
-            .join(' ')
-            .trim();
-
-          resolve({
-            text,
-            source: 'local',
-          });
-        } else {
-          reject(new Error(`whisper-cli failed (code ${code}): ${stderr || stdout}`));
+      try {
+        return await backend.transcribe(audio, {
+          language: this.config.whisper.language,
+          prompt: backend.capabilities.prompt ? prompt : undefined,
+          translate: options.translate,
+          signal: options.signal,
+        });
+      } catch (error) {
+        // A cancelled request is not a backend failure; don't fall back
+        if (options.signal?.aborted) {
+          throw new Error('Transcription cancelled');
         }
-      });
+        console.error(`${name} transcription failed, trying next backend:`, error);
+        failures.push(`${name}: ${(error as Error).message}`);
+      }
+    }
 
-      proc.on('error', (err) => {
-        reject(new Error(`Failed to run whisper-cli: ${err.message}`));
-      });
-    });
+    throw new Error(`All transcription backends failed (${failures.join('; ')})`);
   }
 
-  canUseAPI(): boolean {
-    return !!getOpenAIKey(this.config);
+  /**
+   * Warm up enabled backends that keep a long-running process (e.g. whisper-server)
+   */
+  async startBackends(): Promise<void> {
+    for (const name of this.config.whisper.backends) {
+      const backend = this.backends.get(name);
+      if (backend?.start && backend.isConfigured()) {
+        await backend.start();
+      }
+    }
   }
 
-  canUseLocal(): boolean {
-    return !!this.config.whisper.localModelPath;
+  shutdown(): void {
+    for (const backend of this.backends.values()) {
+      backend.shutdown?.();
+    }
+  }
+
+  getBackendStatus(): BackendStatus[] {
+    const chain = this.config.whisper.backends;
+
+    return Array.from(this.backends.values()).map((backend) => ({
+      name: backend.name,
+      configured: backend.isConfigured(),
+      enabled: chain.includes(backend.name),
+      capabilities: backend.capabilities,
+    }));
   }
 }
@@ -0,0 +1,72 @@
+/**
+ * Transcription backend registry
+ * Each backend implements TranscriptionBackend and is registered by name.
+ * The Transcriber tries backends in the order of `whisper.backends`.
+ */
+import type { PTTConfig } from '../config';
+import { OpenAIBackend } from './openai';
+import { WhisperCliBackend } from './whisper-cli';
+import { WhisperServerBackend } from './whisper-server';
+
+export interface TranscriptionResult {
+  text: string;
+  language?: string;
+  duration?: number;
+  source: string;
+}
+
+export interface TranscriptionOptions {
+  language: string;
+  /** Initial prompt biasing Whisper toward vocabulary terms */
+  prompt?: string;
+  /** Translate the speech to English instead of transcribing it */
+  translate?: boolean;
+  /** Aborts the request (or kills the process) when the user cancels */
+  signal?: AbortSignal;
+}
+
+export interface BackendCapabilities {
+  offline: boolean;
+  translate: boolean;
+  prompt: boolean;
+  /** Largest audio file the backend accepts, if limited */
+  maxAudioBytes?: number;
+}
+
+export interface TranscriptionBackend {
+  readonly name: string;
+  readonly capabilities: BackendCapabilities;
+  isConfigured(): boolean;
+  transcribe(audio: Buffer, options: TranscriptionOptions): Promise<TranscriptionResult>;
+  /** Optional warm-up for backends that keep a long-running process */
+  start?(): Promise<void>;
+  /** Optional teardown, called when the daemon stops or config changes */
+  shutdown?(): void;
+  /** Optional in-place config update; backends without one are recreated */
+  updateConfig?(config: PTTConfig): void;
+}
+
+export type BackendFactory = (config: PTTConfig) => TranscriptionBackend;
+
+const registry = new Map<string, BackendFactory>();
+
+export function registerBackend(name: string, factory: BackendFactory): void {
+  registry.set(name, factory);
+}
+
+export function getBackendNames(): string[] {
+  return Array.from(registry.keys());
+}
+
+export function createBackend(name: string, config: PTTConfig): TranscriptionBackend {
+  const factory = registry.get(name);
+  if (!factory) {
+    throw new Error(`Unknown transcription backend: ${name}. Available: ${getBackendNames().join(', ')}`);
+  }
+  return factory(config);
+}
+
+// Built-in backends
+registerBackend('openai', (config) => new OpenAIBackend(config));
+registerBackend('whisper-cli', (config) => new WhisperCliBackend(config));
+registerBackend('whisper-server', (config) => new WhisperServerBackend(config));
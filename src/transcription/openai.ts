@@ -0,0 +1,90 @@
+/**
+ * OpenAI Whisper API transcription backend
+ * Also works with any server implementing the OpenAI `/v1/audio/transcriptions`
+ * API (e.g. faster-whisper-server) via `whisper.apiBaseUrl`.
+ * Documentation: https://github.com/openai/openai-node
+ */
+import OpenAI, { toFile } from 'openai';
+import { PTTConfig, getOpenAIKey } from '../config';
+import type { TranslationVerbose } from 'openai/resources/audio/translations';
+import type {
+  BackendCapabilities,
+  TranscriptionBackend,
+  TranscriptionOptions,
+  TranscriptionResult,
+} from './index';
+
+export class OpenAIBackend implements TranscriptionBackend {
+  readonly name = 'openai';
+  readonly capabilities: BackendCapabilities = {
+    offline: false,
+    translate: true,
+    prompt: true,
+    // OpenAI rejects uploads over 25 MB
+    maxAudioBytes: 25 * 1024 * 1024,
+  };
+  private config: PTTConfig;
+  private client: OpenAI | null = null;
+
+  constructor(config: PTTConfig) {
+    this.config = config;
+  }
+
+  isConfigured(): boolean {
+    return !!getOpenAIKey(this.config) || !this.config.whisper.apiKeyRequired;
+  }
+
+  private getClient(): OpenAI {
+    const { apiBaseUrl, apiHeaders, apiKeyRequired } = this.config.whisper;
+    const apiKey = getOpenAIKey(this.config);
+    if (!apiKey && apiKeyRequired) {
+      throw new Error('OpenAI API key not configured');
+    }
+
+    if (!this.client) {
+      this.client = new OpenAI({
+        // The SDK insists on a key; keyless servers ignore the placeholder
+        apiKey: apiKey || 'no-key-required',
+        baseURL: apiBaseUrl || undefined,
+        defaultHeaders: apiHeaders,
+      });
+    }
+    return this.client;
+  }
+
+  async transcribe(audio: Buffer, options: TranscriptionOptions): Promise<TranscriptionResult> {
+    const client = this.getClient();
+    const audioFile = await toFile(audio, 'audio.wav', { type: 'audio/wav' });
+
+    if (options.translate) {
+      const translation = await client.audio.translations.create({
+        file: audioFile,
+        model: this.config.whisper.apiModel,
+        prompt: options.prompt,
+        response_format: 'verbose_json',
+      }, { signal: options.signal }) as TranslationVerbose;
+
+      return {
+        text: translation.text,
+        language: 'en',
+        duration: translation.duration,
+        source: this.name,
+      };
+    }
+
+    const transcription = await client.audio.transcriptions.create({
+      file: audioFile,
+      model: this.config.whisper.apiModel,
+      language: options.language,
+      prompt: options.prompt,
+      response_format: 'verbose_json',
+    }, { signal: options.signal });
+
+    return {
+      text: transcription.text,
+      language: transcription.language,
+      duration: transcription.duration,
+      source: this.name,
+    };
+  }
+}
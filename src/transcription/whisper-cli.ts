@@ -0,0 +1,127 @@
+/**
+ * Local whisper.cpp transcription backend (one whisper-cli process per clip)
+ * Documentation: https://github.com/ggerganov/whisper.cpp
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { spawn } from 'child_process';
+import type { PTTConfig } from '../config';
+import type {
+  BackendCapabilities,
+  TranscriptionBackend,
+  TranscriptionOptions,
+  TranscriptionResult,
+} from './index';
+
+export class WhisperCliBackend implements TranscriptionBackend {
+  readonly name = 'whisper-cli';
+  readonly capabilities: BackendCapabilities = {
+    offline: true,
+    translate: true,
+    prompt: true,
+  };
+  private config: PTTConfig;
+
+  constructor(config: PTTConfig) {
+    this.config = config;
+  }
+
+  isConfigured(): boolean {
+    const { localModelPath, whisperExecutable } = this.config.whisper;
+    return !!(localModelPath || whisperExecutable);
+  }
+
+  async transcribe(audio: Buffer, options: TranscriptionOptions): Promise<TranscriptionResult> {
+    const { localModelPath, whisperExecutable } = this.config.whisper;
+
+    if (!this.isConfigured()) {
+      throw new Error('Local Whisper not configured. Set localModelPath and/or whisperExecutable.');
+    }
+
+    // whisper-cli only reads from files, so write a short-lived temp file
+    const tempDir = path.join(os.tmpdir(), 'claude-ptt');
+    fs.mkdirSync(tempDir, { recursive: true });
+    const audioPath = path.join(tempDir, `transcribe-${Date.now()}.wav`);
+    fs.writeFileSync(audioPath, audio);
+
+    try {
+      // If we have an executable configured, use it with the model,
+      // otherwise try to find whisper-cli in PATH
+      return await this.runWhisperCli(
+        audioPath,
+        whisperExecutable || 'whisper-cli',
+        localModelPath,
+        options
+      );
+    } finally {
+      fs.unlink(audioPath, () => {});
+    }
+  }
+
+  private runWhisperCli(
+    audioPath: string,
+    executablePath: string,
+    modelPath: string | null,
+    options: TranscriptionOptions
+  ): Promise<TranscriptionResult> {
+    return new Promise((resolve, reject) => {
+      const args: string[] = [];
+
+      // Add model path if specified
+      if (modelPath) {
+        args.push('-m', modelPath);
+      }
+
+      args.push(
+        '-f', audioPath,
+        '-l', options.language,
+        '--no-timestamps',
+        '--no-prints'  // Suppress progress output
+      );
+
+      if (options.prompt) {
+        args.push('--prompt', options.prompt);
+      }
+
+      if (options.translate) {
+        args.push('--translate');
+      }
+
+      // Aborting kills the process, which rejects via the 'error' handler
+      const proc = spawn(executablePath, args, { signal: options.signal });
+      let stdout = '';
+      let stderr = '';
+
+      proc.stdout.on('data', (data) => {
+        stdout += data.toString();
+      });
+
+      proc.stderr.on('data', (data) => {
+        stderr += data.toString();
+      });
+
+      proc.on('close', (code) => {
+        if (code === 0) {
+          // Clean up the output - whisper-cli outputs the transcription
+          const text = stdout
+            .split('\n')
+            .filter(line => !line.startsWith('[') && line.trim())
+            .join(' ')
+            .trim();
+
+          resolve({
+            text,
+            source: this.name,
+          });
+        } else {
+          reject(new Error(`whisper-cli failed (code ${code}): ${stderr || stdout}`));
+        }
+      });
+
+      proc.on('error', (err) => {
+        reject(new Error(`Failed to run whisper-cli: ${err.message}`));
+      });
+    });
+  }
+}
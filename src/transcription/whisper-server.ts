@@ -0,0 +1,258 @@
+/**
+ * Local whisper.cpp server transcription backend
+ * Launches whisper.cpp's `whisper-server` once and keeps the model loaded,
+ * sending each clip to its /inference endpoint over localhost HTTP.
+ * The server is restarted if it crashes and shut down with the daemon.
+ * The port must be free: another server answering on it would pass the
+ * readiness probe while ours fails to bind.
+ * Documentation: https://github.com/ggerganov/whisper.cpp/tree/master/examples/server
+ */
+import { spawn, ChildProcess } from 'child_process';
+import type { PTTConfig } from '../config';
+import type {
+  BackendCapabilities,
+  TranscriptionBackend,
+  TranscriptionOptions,
+  TranscriptionResult,
+} from './index';
+
+const READY_TIMEOUT_MS = 60000;
+const READY_POLL_MS = 250;
+const MAX_RESTART_DELAY_MS = 30000;
+const STOP_TIMEOUT_MS = 5000;
+
+// Settings the running server was launched with; changing one restarts it
+const SERVER_SETTINGS = ['localModelPath', 'serverExecutable', 'serverHost', 'serverPort'] as const;
+
+export class WhisperServerBackend implements TranscriptionBackend {
+  readonly name = 'whisper-server';
+  readonly capabilities: BackendCapabilities = {
+    offline: true,
+    translate: true,
+    prompt: true,
+  };
+  private config: PTTConfig;
+  private serverProcess: ChildProcess | null = null;
+  private readyPromise: Promise<void> | null = null;
+  private restartTimer: NodeJS.Timeout | null = null;
+  private restartDelayMs: number = 1000;
+  private isShuttingDown: boolean = false;
+  private lastStderr: string = '';
+  // Resolves once servers stopped by shutdown() have exited and released the port
+  private stopped: Promise<void> = Promise.resolve();
+
+  constructor(config: PTTConfig) {
+    this.config = config;
+  }
+
+  isConfigured(): boolean {
+    return !!this.config.whisper.localModelPath;
+  }
+
+  private getBaseUrl(): string {
+    const { serverHost, serverPort } = this.config.whisper;
+    return `http://${serverHost}:${serverPort}`;
+  }
+
+  async start(): Promise<void> {
+    if (!this.isConfigured()) {
+      throw new Error('whisper-server requires localModelPath to be set.');
+    }
+
+    this.isShuttingDown = false;
+
+    if (!this.readyPromise) {
+      this.readyPromise = this.launch().catch((error) => {
+        this.readyPromise = null;
+        throw error;
+      });
+    }
+
+    return this.readyPromise;
+  }
+
+  /**
+   * Apply a config change; the running server is only restarted (on next
+   * use) when one of its own settings changed
+   */
+  updateConfig(config: PTTConfig): void {
+    const changed = SERVER_SETTINGS.some((key) => config.whisper[key] !== this.config.whisper[key]);
+    this.config = config;
+
+    if (changed) {
+      this.shutdown();
+    }
+  }
+
+  private async launch(): Promise<void> {
+    const { localModelPath, serverExecutable, serverHost, serverPort } = this.config.whisper;
+
+    // A server replaced after a config change may still hold the port
+    await this.stopped;
+
+    if (await this.isAnswering()) {
+      throw new Error(`whisper-server port ${serverHost}:${serverPort} is already in use by another process`);
+    }
+
+    const args = [
+      '-m', localModelPath as string,
+      '--host', serverHost,
+      '--port', String(serverPort),
+    ];
+
+    const proc = spawn(serverExecutable || 'whisper-server', args, {
+      stdio: ['ignore', 'ignore', 'pipe'],
+    });
+    this.serverProcess = proc;
+    this.lastStderr = '';
+    let ready = false;
+
+    proc.stderr?.on('data', (data) => {
+      // Keep the tail of stderr for error reporting
+      this.lastStderr = (this.lastStderr + data.toString()).slice(-2000);
+    });
+
+    proc.on('exit', (code, signal) => {
+      // A server replaced by shutdown() or a config change didn't crash
+      const crashed = this.serverProcess === proc;
+      if (crashed) {
+        this.serverProcess = null;
+        this.readyPromise = null;
+      }
+
+      // Startup failures are reported to the caller; only restart after a crash
+      if (ready && crashed && !this.isShuttingDown) {
+        console.error(`whisper-server exited unexpectedly (code ${code}, signal ${signal}), restarting`);
+        this.scheduleRestart();
+      }
+    });
+
+    const spawnError = new Promise<never>((_, reject) => {
+      proc.once('error', (err) => {
+        // Also stops waitUntilReady() polling
+        if (this.serverProcess === proc) {
+          this.serverProcess = null;
+          this.readyPromise = null;
+        }
+        reject(new Error(`Failed to run whisper-server: ${err.message}`));
+      });
+    });
+
+    await Promise.race([this.waitUntilReady(proc), spawnError]);
+    ready = true;
+    this.restartDelayMs = 1000;
+  }
+
+  private async waitUntilReady(proc: ChildProcess): Promise<void> {
+    const deadline = Date.now() + READY_TIMEOUT_MS;
+    const isAlive = () => this.serverProcess === proc && proc.exitCode === null && proc.signalCode === null;
+
+    while (Date.now() < deadline) {
+      if (!isAlive()) {
+        throw new Error(`whisper-server exited during startup: ${this.lastStderr.trim()}`);
+      }
+
+      // Only an answer while our process is still running counts
+      if (await this.isAnswering()) {
+        if (!isAlive()) continue;
+        return;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, READY_POLL_MS));
+    }
+
+    proc.kill();
+    throw new Error(`whisper-server did not become ready within ${READY_TIMEOUT_MS / 1000}s`);
+  }
+
+  private async isAnswering(): Promise<boolean> {
+    try {
+      await fetch(this.getBaseUrl(), { signal: AbortSignal.timeout(1000) });
+      return true;
+    } catch {
+      // Not listening (yet: the model may still be loading)
+      return false;
+    }
+  }
+
+  /**
+   * Restart after a crash; a failed restart (port taken, executable gone)
+   * is not retried in a loop, the next transcription launches it again
+   */
+  private scheduleRestart(): void {
+    if (this.restartTimer) return;
+
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      this.start().catch((error) => {
+        console.error('Failed to restart whisper-server:', error);
+      });
+    }, this.restartDelayMs);
+
+    this.restartDelayMs = Math.min(this.restartDelayMs * 2, MAX_RESTART_DELAY_MS);
+  }
+
+  async transcribe(audio: Buffer, options: TranscriptionOptions): Promise<TranscriptionResult> {
+    await this.start();
+
+    const form = new FormData();
+    form.append('file', new Blob([audio], { type: 'audio/wav' }), 'audio.wav');
+    form.append('response_format', 'json');
+    form.append('language', options.language);
+    if (options.prompt) {
+      form.append('prompt', options.prompt);
+    }
+    if (options.translate) {
+      form.append('translate', 'true');
+    }
+
+    const response = await fetch(`${this.getBaseUrl()}/inference`, {
+      method: 'POST',
+      body: form,
+      signal: options.signal,
+    });
+
+    const body = await response.json() as { text?: string; error?: string };
+
+    if (!response.ok || body.error) {
+      throw new Error(`whisper-server failed (${response.status}): ${body.error || response.statusText}`);
+    }
+
+    return {
+      text: (body.text || '').trim(),
+      language: options.language,
+      source: this.name,
+    };
+  }
+
+  shutdown(): void {
+    this.isShuttingDown = true;
+
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
+
+    if (this.serverProcess) {
+      const proc = this.serverProcess;
+      const exited = new Promise<void>((resolve) => {
+        // A server that ignores SIGTERM is killed after a while
+        const forceKill = setTimeout(() => proc.kill('SIGKILL'), STOP_TIMEOUT_MS);
+        forceKill.unref();
+        const done = () => {
+          clearTimeout(forceKill);
+          resolve();
+        };
+        // 'error' instead of 'exit' when the executable never started
+        proc.once('exit', done);
+        proc.once('error', done);
+      });
+
+      this.stopped = Promise.all([this.stopped, exited]).then(() => undefined);
+      proc.kill('SIGTERM');
+      this.serverProcess = null;
+    }
+
+    this.readyPromise = null;
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * Energy-based voice activity detection
+ * Works on 16-bit little-endian PCM, the format produced by the recorder.
+ * Levels are RMS amplitude as a percentage of full scale, the same unit
+ * sox uses for its silence effect, so `audio.silenceThreshold: 0.5` means 0.5%.
+ */
+import { EventEmitter } from 'events';
+import type { AudioConfig } from './config';
+
+export interface VADOptions {
+  sampleRate: number;
+  channels: number;
+  threshold: number;
+  frameMs: number;
+  silenceTimeoutMs: number;
+  minSpeechMs: number;
+  paddingMs: number;
+}
+
+const DEFAULT_VAD_OPTIONS: VADOptions = {
+  sampleRate: 16000,
+  channels: 1,
+  threshold: 0.5,
+  frameMs: 30,
+  silenceTimeoutMs: 1500,
+  minSpeechMs: 150,
+  paddingMs: 200,
+};
+
+const BYTES_PER_SAMPLE = 2;
+const FULL_SCALE = 32768;
+
+export function getVADOptions(audio: AudioConfig): Partial<VADOptions> {
+  return {
+    sampleRate: audio.sampleRate,
+    threshold: audio.silenceThreshold,
+    silenceTimeoutMs: audio.silenceTimeoutMs,
+    minSpeechMs: audio.minSpeechMs,
+  };
+}
+
+function resolveOptions(options: Partial<VADOptions>): VADOptions {
+  return { ...DEFAULT_VAD_OPTIONS, ...options };
+}
+
+function getFrameBytes(options: VADOptions): number {
+  const samplesPerFrame = Math.max(1, Math.round(options.sampleRate * options.frameMs / 1000));
+  return samplesPerFrame * options.channels * BYTES_PER_SAMPLE;
+}
+
+export function computeLevel(pcm: Buffer, start: number = 0, end: number = pcm.length): number {
+  let sumSquares = 0;
+  let count = 0;
+
+  for (let offset = start; offset + BYTES_PER_SAMPLE <= end; offset += BYTES_PER_SAMPLE) {
+    const sample = pcm.readInt16LE(offset);
+    sumSquares += sample * sample;
+    count++;
+  }
+
+  if (count === 0) return 0;
+  return (Math.sqrt(sumSquares / count) / FULL_SCALE) * 100;
+}
+
+export function frameLevels(pcm: Buffer, options: Partial<VADOptions> = {}): number[] {
+  const opts = resolveOptions(options);
+  const frameBytes = getFrameBytes(opts);
+  const levels: number[] = [];
+
+  for (let offset = 0; offset < pcm.length; offset += frameBytes) {
+    levels.push(computeLevel(pcm, offset, Math.min(offset + frameBytes, pcm.length)));
+  }
+
+  return levels;
+}
+
+/**
+ * Find the byte range containing speech, padded on both sides.
+ * Returns null when the clip holds less than `minSpeechMs` of speech.
+ */
+export function findSpeechBounds(
+  pcm: Buffer,
+  options: Partial<VADOptions> = {}
+): { start: number; end: number } | null {
+  const opts = resolveOptions(options);
+  const frameBytes = getFrameBytes(opts);
+  const levels = frameLevels(pcm, opts);
+
+  let first = -1;
+  let last = -1;
+  let speechFrames = 0;
+
+  levels.forEach((level, index) => {
+    if (level >= opts.threshold) {
+      if (first === -1) first = index;
+      last = index;
+      speechFrames++;
+    }
+  });
+
+  if (first === -1 || speechFrames * opts.frameMs < opts.minSpeechMs) {
+    return null;
+  }
+
+  const paddingFrames = Math.ceil(opts.paddingMs / opts.frameMs);
+  const start = Math.max(0, first - paddingFrames) * frameBytes;
+  const end = Math.min(pcm.length, (last + 1 + paddingFrames) * frameBytes);
+
+  return { start, end };
+}
+
+export function trimSilence(pcm: Buffer, options: Partial<VADOptions> = {}): Buffer | null {
+  const bounds = findSpeechBounds(pcm, options);
+  if (!bounds) return null;
+  return pcm.subarray(bounds.start, bounds.end);
+}
+
+/**
+ * Streaming detector fed with live PCM chunks.
+ * Emits 'silence' once trailing silence after enough speech exceeds
+ * `silenceTimeoutMs`.
+ */
+export class VoiceActivityDetector extends EventEmitter {
+  private options: VADOptions;
+  private frameBytes: number;
+  private pending: Buffer = Buffer.alloc(0);
+  private speechMs: number = 0;
+  private silenceMs: number = 0;
+  private hasSpeech: boolean = false;
+  private silenceEmitted: boolean = false;
+
+  constructor(options: Partial<VADOptions> = {}) {
+    super();
+    this.options = resolveOptions(options);
+    this.frameBytes = getFrameBytes(this.options);
+  }
+
+  process(chunk: Buffer): void {
+    const buffer = this.pending.length > 0 ? Buffer.concat([this.pending, chunk]) : chunk;
+    let offset = 0;
+
+    while (offset + this.frameBytes <= buffer.length) {
+      this.processFrame(computeLevel(buffer, offset, offset + this.frameBytes));
+      offset += this.frameBytes;
+    }
+
+    this.pending = Buffer.from(buffer.subarray(offset));
+  }
+
+  private processFrame(level: number): void {
+    const { threshold, frameMs, minSpeechMs, silenceTimeoutMs } = this.options;
+
+    if (level >= threshold) {
+      this.speechMs += frameMs;
+      this.silenceMs = 0;
+      this.silenceEmitted = false;
+
+      if (!this.hasSpeech && this.speechMs >= minSpeechMs) {
+        this.hasSpeech = true;
+      }
+      return;
+    }
+
+    this.silenceMs += frameMs;
+
+    if (
+      this.hasSpeech &&
+      !this.silenceEmitted &&
+      silenceTimeoutMs > 0 &&
+      this.silenceMs >= silenceTimeoutMs
+    ) {
+      this.silenceEmitted = true;
+      this.emit('silence', this.silenceMs);
+    }
+  }
+
+  setOptions(options: Partial<VADOptions>): void {
+    this.options = resolveOptions(options);
+    this.frameBytes = getFrameBytes(this.options);
+    this.reset();
+  }
+
+  reset(): void {
+    this.pending = Buffer.alloc(0);
+    this.speechMs = 0;
+    this.silenceMs = 0;
+    this.hasSpeech = false;
+    this.silenceEmitted = false;
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * Vocabulary prompt for Whisper
+ * Combines global terms from config, per-project terms from
+ * `<repo>/.claude/ptt-vocab.json` and optionally names from the current git
+ * repository into the initial prompt, which biases Whisper toward spelling
+ * them correctly.
+ *
+ * Project file format: `{ "terms": ["kubectl", "tsconfig"], "prompt": "..." }`
+ * or just an array of terms.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import type { VocabularyConfig } from './config';
+
+// Whisper only looks at the last 224 tokens of the prompt
+const MAX_PROMPT_CHARS = 800;
+const MAX_GIT_TERMS = 100;
+const GIT_CACHE_TTL_MS = 5 * 60 * 1000;
+
+interface ProjectVocabulary {
+  terms: string[];
+  prompt: string | null;
+}
+
+const gitTermsCache = new Map<string, { terms: string[]; expires: number }>();
+const projectRootCache = new Map<string, { root: string; expires: number }>();
+
+function findProjectRoot(cwd: string): string {
+  const cached = projectRootCache.get(cwd);
+  if (cached && cached.expires > Date.now()) {
+    return cached.root;
+  }
+
+  let root = cwd;
+  try {
+    root = execFileSync('git', ['rev-parse', '--show-toplevel'], {
+      cwd,
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'ignore'],
+    }).trim();
+  } catch {
+    // Not a git repository
+  }
+
+  projectRootCache.set(cwd, { root, expires: Date.now() + GIT_CACHE_TTL_MS });
+  return root;
+}
+
+function loadProjectVocabulary(root: string, projectFile: string): ProjectVocabulary {
+  const filePath = path.join(root, projectFile);
+
+  if (!fs.existsSync(filePath)) {
+    return { terms: [], prompt: null };
+  }
+
+  try {
+    const content = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    if (Array.isArray(content)) {
+      return { terms: content.map(String), prompt: null };
+    }
+    return {
+      terms: Array.isArray(content.terms) ? content.terms.map(String) : [],
+      prompt: typeof content.prompt === 'string' ? content.prompt : null,
+    };
+  } catch (error) {
+    console.error(`Error loading ${filePath}, ignoring:`, error);
+    return { terms: [], prompt: null };
+  }
+}
+
+/**
+ * Package name and distinctive file names from the repository
+ */
+function getGitTerms(root: string): string[] {
+  const cached = gitTermsCache.get(root);
+  if (cached && cached.expires > Date.now()) {
+    return cached.terms;
+  }
+
+  const terms: string[] = [];
+
+  try {
+    const pkg = JSON.parse(fs.readFileSync(path.join(root, 'package.json'), 'utf-8'));
+    if (typeof pkg.name === 'string') {
+      terms.push(pkg.name);
+    }
+  } catch {
+    // No package.json
+  }
+
+  try {
+    const files = execFileSync('git', ['ls-files'], {
+      cwd: root,
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'ignore'],
+      maxBuffer: 16 * 1024 * 1024,
+    }).split('\n');
+
+    for (const file of files) {
+      const name = path.basename(file, path.extname(file));
+      // Keep identifier-like names (camelCase, kebab-case, snake_case);
+      // skip short names, ALLCAPS files (README, LICENSE) and dated docs
+      const isIdentifier = /[A-Z_\-.]|\d/.test(name.slice(1));
+      const isGeneric = name.length <= 3 || /^[A-Z0-9_]+$/.test(name) || /^\d/.test(name);
+      if (isIdentifier && !isGeneric && !terms.includes(name)) {
+        terms.push(name);
+      }
+      if (terms.length >= MAX_GIT_TERMS) break;
+    }
+  } catch {
+    // Not a git repository
+  }
+
+  gitTermsCache.set(root, { terms, expires: Date.now() + GIT_CACHE_TTL_MS });
+  return terms;
+}
+
+export function buildVocabularyPrompt(
+  config: VocabularyConfig,
+  cwd: string = process.cwd()
+): string | null {
+  const root = findProjectRoot(cwd);
+  const project = loadProjectVocabulary(root, config.projectFile);
+
+  const terms: string[] = [];
+  for (const term of [
+    ...config.terms,
+    ...project.terms,
+    ...(config.includeGitContext ? getGitTerms(root) : []),
+  ]) {
+    if (term.trim() && !terms.includes(term.trim())) {
+      terms.push(term.trim());
+    }
+  }
+
+  const base = [config.prompt, project.prompt]
+    .filter((part): part is string => !!part && !!part.trim())
+    .join(' ');
+
+  // Add terms until the prompt budget is used up; explicit terms come first
+  const included: string[] = [];
+  let length = base.length;
+  for (const term of terms) {
+    if (length + term.length + 2 > MAX_PROMPT_CHARS) break;
+    included.push(term);
+    length += term.length + 2;
+  }
+
+  const prompt = [base, included.join(', ')].filter(Boolean).join(' ');
+  return prompt || null;
+}
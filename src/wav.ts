@@ -0,0 +1,39 @@
+/**
+ * Minimal WAV (RIFF/PCM) helpers
+ * Reference: http://soundfile.sapp.org/doc/WaveFormat/
+ */
+
+export interface WavFormat {
+  sampleRate: number;
+  channels: number;
+  bitDepth: number;
+}
+
+export const WAV_HEADER_SIZE = 44;
+
+export function encodeWavHeader(dataLength: number, format: WavFormat): Buffer {
+  const { sampleRate, channels, bitDepth } = format;
+  const blockAlign = channels * (bitDepth / 8);
+  const header = Buffer.alloc(WAV_HEADER_SIZE);
+
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + dataLength, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16);          // fmt chunk size
+  header.writeUInt16LE(1, 20);           // PCM
+  header.writeUInt16LE(channels, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * blockAlign, 28);
+  header.writeUInt16LE(blockAlign, 32);
+  header.writeUInt16LE(bitDepth, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(dataLength, 40);
+
+  return header;
+}
+
+export function encodeWav(pcm: Buffer, format: WavFormat): Buffer {
+  return Buffer.concat([encodeWavHeader(pcm.length, format), pcm]);
+}
+
@@ -0,0 +1,61 @@
+const assert = require('node:assert/strict');
+const { test } = require('node:test');
+const { joinTranscripts, splitPcm } = require('../dist/chunking');
+
+// 16 kHz mono 16-bit PCM: 32 bytes per millisecond
+const FORMAT = { sampleRate: 16000, channels: 1, bitDepth: 16 };
+
+function silence(ms) {
+  return Buffer.alloc(ms * 32);
+}
+
+// A loud square wave with no quiet frames
+function speech(ms) {
+  const buffer = Buffer.alloc(ms * 32);
+  for (let offset = 0; offset < buffer.length; offset += 2) {
+    buffer.writeInt16LE((offset / 2) % 32 < 16 ? 8000 : -8000, offset);
+  }
+  return buffer;
+}
+
+test('a buffer shorter than one chunk is returned whole', () => {
+  const pcm = speech(400);
+  const chunks = splitPcm(pcm, FORMAT, { maxChunkMs: 1000 });
+  assert.equal(chunks.length, 1);
+  assert.equal(chunks[0], pcm);
+
+  assert.equal(splitPcm(speech(1000), FORMAT, { maxChunkMs: 1000 }).length, 1);
+});
+
+test('without a quiet spot, chunks are cut at the limit and the last one is partial', () => {
+  const pcm = speech(2500);
+  const chunks = splitPcm(pcm, FORMAT, { maxChunkMs: 1000 });
+
+  assert.deepEqual(chunks.map((chunk) => chunk.length / 32), [1000, 1000, 500]);
+  assert.deepEqual(Buffer.concat(chunks), pcm);
+});
+
+test('cuts move back to the quietest frame before the limit', () => {
+  const pcm = Buffer.concat([speech(800), silence(100), speech(900)]);
+  const chunks = splitPcm(pcm, FORMAT, { maxChunkMs: 1000 });
+
+  // The latest fully silent 30 ms frame before 1000 ms is 850-880 ms
+  assert.deepEqual(chunks.map((chunk) => chunk.length / 32), [880, 920]);
+  assert.deepEqual(Buffer.concat(chunks), pcm);
+});
+
+test('a byte limit is aligned to whole samples', () => {
+  const pcm = speech(100);
+  const chunks = splitPcm(pcm, FORMAT, { maxChunkMs: 60000, maxChunkBytes: 1001 });
+
+  assert.equal(chunks.length, 4);
+  for (const chunk of chunks) {
+    assert.equal(chunk.length % 2, 0);
+    assert.ok(chunk.length <= 1000);
+  }
+  assert.deepEqual(Buffer.concat(chunks), pcm);
+});
+
+test('segment transcripts are joined with single spaces', () => {
+  assert.equal(joinTranscripts([' first part ', '', 'second part\n']), 'first part second part');
+});
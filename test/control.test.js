@@ -0,0 +1,65 @@
+const assert = require('node:assert/strict');
+const fs = require('node:fs');
+const net = require('node:net');
+const os = require('node:os');
+const path = require('node:path');
+const { after, before, test } = require('node:test');
+const { ControlServer, sendControlRequest } = require('../dist/control');
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ptt-control-test-'));
+const socketPath = path.join(dir, 'control.sock');
+const server = new ControlServer({ status: () => ({ phase: 'idle' }) }, socketPath);
+
+before(() => server.listen());
+after(() => {
+  server.close();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+// Send raw lines and collect one response per line
+function roundTrip(lines) {
+  return new Promise((resolve, reject) => {
+    const socket = net.connect(socketPath);
+    const responses = [];
+    let buffer = '';
+
+    socket.setEncoding('utf8');
+    socket.on('connect', () => socket.write(lines.map((line) => line + '\n').join('')));
+    socket.on('data', (data) => {
+      buffer += data;
+      let newline;
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        responses.push(JSON.parse(buffer.slice(0, newline)));
+        buffer = buffer.slice(newline + 1);
+      }
+      if (responses.length === lines.length) {
+        socket.destroy();
+        resolve(responses);
+      }
+    });
+    socket.on('error', reject);
+  });
+}
+
+test('malformed JSON is a parse error', async () => {
+  const [response] = await roundTrip(['{not json']);
+  assert.equal(response.error.code, -32700);
+});
+
+test('non-request values are invalid requests and the server keeps running', async () => {
+  const responses = await roundTrip(['null', '42', '[]', '{"id":1}']);
+  assert.deepEqual(responses.map((response) => response.error.code), [-32600, -32600, -32600, -32600]);
+
+  assert.deepEqual(await sendControlRequest('status', {}, socketPath), { phase: 'idle' });
+});
+
+test('unknown methods are reported', async () => {
+  const [response] = await roundTrip(['{"jsonrpc":"2.0","id":7,"method":"nope"}']);
+  assert.equal(response.id, 7);
+  assert.equal(response.error.code, -32601);
+});
+
+test('a valid status call returns the handler result', async () => {
+  const [response] = await roundTrip(['{"jsonrpc":"2.0","id":"a","method":"status"}']);
+  assert.deepEqual(response, { jsonrpc: '2.0', id: 'a', result: { phase: 'idle' } });
+});
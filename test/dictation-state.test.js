@@ -0,0 +1,87 @@
+const assert = require('node:assert/strict');
+const { test } = require('node:test');
+const { DictationStateMachine, INPUT_POLICY } = require('../dist/dictation-state');
+
+// Phases to pass through to reach each phase from idle
+const PATHS = {
+  idle: [],
+  recording: ['recording'],
+  transcribing: ['recording', 'transcribing'],
+  outputting: ['recording', 'transcribing', 'outputting'],
+};
+
+function machineIn(phase) {
+  const machine = new DictationStateMachine(0);
+  for (const to of PATHS[phase]) {
+    machine.transition(to, 'test');
+  }
+  return machine;
+}
+
+test('input policy per phase', () => {
+  const expected = {
+    idle: { start: 'accept', stop: 'reject', cancel: 'reject', retype: 'accept', listen: 'accept' },
+    recording: { start: 'reject', stop: 'accept', cancel: 'accept', retype: 'queue', listen: 'reject' },
+    transcribing: { start: 'queue', stop: 'reject', cancel: 'accept', retype: 'queue', listen: 'reject' },
+    outputting: { start: 'queue', stop: 'reject', cancel: 'reject', retype: 'queue', listen: 'reject' },
+  };
+
+  assert.deepEqual(INPUT_POLICY, expected);
+  for (const [phase, inputs] of Object.entries(expected)) {
+    const machine = machineIn(phase);
+    for (const [input, disposition] of Object.entries(inputs)) {
+      assert.equal(machine.admit(input), disposition, `${input} while ${phase}`);
+    }
+  }
+});
+
+test('a dictation moves through every phase back to idle', () => {
+  const machine = new DictationStateMachine(0);
+  const changes = [
+    machine.transition('recording', 'hotkey', 10),
+    machine.transition('transcribing', 'hotkey', 20),
+    machine.transition('outputting', 'transcribed', 30),
+    machine.transition('idle', 'done', 40),
+  ];
+
+  assert.deepEqual(changes.map(({ from, to }) => `${from}->${to}`), [
+    'idle->recording',
+    'recording->transcribing',
+    'transcribing->outputting',
+    'outputting->idle',
+  ]);
+  assert.equal(machine.getPhase(), 'idle');
+  assert.equal(machine.getPhaseSince(), 40);
+  assert.deepEqual(machine.getTimestamps(), { recording: 10, transcribing: 20, outputting: 30, idle: 40 });
+});
+
+test('cancelled, failed and re-typed dictations take the short paths', () => {
+  assert.doesNotThrow(() => machineIn('recording').transition('idle', 'cancelled'));
+  assert.doesNotThrow(() => machineIn('transcribing').transition('idle', 'no speech'));
+  assert.doesNotThrow(() => machineIn('idle').transition('outputting', 'retype'));
+});
+
+test('invalid transitions throw and leave the phase unchanged', () => {
+  const invalid = [
+    ['idle', 'transcribing'],
+    ['idle', 'idle'],
+    ['recording', 'outputting'],
+    ['recording', 'recording'],
+    ['transcribing', 'recording'],
+    ['outputting', 'recording'],
+    ['outputting', 'transcribing'],
+  ];
+
+  for (const [from, to] of invalid) {
+    const machine = machineIn(from);
+    assert.throws(() => machine.transition(to, 'test'), /Invalid dictation transition/, `${from} -> ${to}`);
+    assert.equal(machine.getPhase(), from);
+  }
+});
+
+test('a new recording starts a fresh set of timestamps', () => {
+  const machine = machineIn('outputting');
+  machine.transition('idle', 'done', 100);
+  machine.transition('recording', 'hotkey', 200);
+  assert.deepEqual(machine.getTimestamps(), { recording: 200 });
+});
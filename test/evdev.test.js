@@ -0,0 +1,86 @@
+const assert = require('node:assert/strict');
+const { test } = require('node:test');
+const {
+  classifyDevice,
+  getInputEventSize,
+  getKernelLongSize,
+  parseCapabilityBitmap,
+  parseInputEvents,
+} = require('../dist/hotkey/evdev');
+
+// Little-endian input_event records with `longSize`-byte timeval fields
+function eventBuffer(longSize, events) {
+  const size = longSize * 2 + 8;
+  const buffer = Buffer.alloc(events.length * size);
+  events.forEach(({ seconds, micros, type, code, value }, index) => {
+    const offset = index * size;
+    if (longSize === 8) {
+      buffer.writeBigInt64LE(BigInt(seconds), offset);
+      buffer.writeBigInt64LE(BigInt(micros), offset + 8);
+    } else {
+      buffer.writeInt32LE(seconds, offset);
+      buffer.writeInt32LE(micros, offset + 4);
+    }
+    buffer.writeUInt16LE(type, offset + longSize * 2);
+    buffer.writeUInt16LE(code, offset + longSize * 2 + 2);
+    buffer.writeInt32LE(value, offset + longSize * 2 + 4);
+  });
+  return buffer;
+}
+
+const EVENTS = [
+  { seconds: 12, micros: 345678, type: 1, code: 57, value: 1 },
+  { seconds: 12, micros: 845000, type: 1, code: 57, value: 2 },
+  { seconds: 13, micros: 0, type: 0, code: 0, value: 0 },
+];
+
+const DECODED = [
+  { timestamp: 12345, type: 1, code: 57, value: 1 },
+  { timestamp: 12845, type: 1, code: 57, value: 2 },
+  { timestamp: 13000, type: 0, code: 0, value: 0 },
+];
+
+test('input_event size follows the architecture', () => {
+  assert.equal(getInputEventSize('x64'), 24);
+  assert.equal(getInputEventSize('arm64'), 24);
+  assert.equal(getInputEventSize('ia32'), 16);
+  assert.equal(getInputEventSize('arm'), 16);
+});
+
+test('24-byte events (64-bit) decode', () => {
+  const buffer = eventBuffer(8, EVENTS);
+  assert.deepEqual(parseInputEvents(buffer, buffer.length, 24, true), DECODED);
+});
+
+test('16-byte events (32-bit) decode', () => {
+  const buffer = eventBuffer(4, EVENTS);
+  assert.deepEqual(parseInputEvents(buffer, buffer.length, 16, true), DECODED);
+});
+
+test('a trailing partial event is ignored', () => {
+  const buffer = eventBuffer(8, EVENTS);
+  assert.deepEqual(parseInputEvents(buffer, buffer.length - 5, 24, true), DECODED.slice(0, 2));
+});
+
+test('capability bitmaps are read most significant word first', () => {
+  // KEY_ESC (1) in the last word, BTN_LEFT (272) in the fifth 64-bit word
+  assert.deepEqual(parseCapabilityBitmap('10000 0 0 0 2', 64), new Set([1, 272]));
+  // The same bits as 32-bit words
+  assert.deepEqual(parseCapabilityBitmap('10000 0 0 0 0 0 0 0 2', 32), new Set([1, 272]));
+  assert.deepEqual(parseCapabilityBitmap('0\n', 64), new Set());
+});
+
+test('bitmap word size follows the kernel, not the process', () => {
+  assert.equal(getKernelLongSize('x86_64'), 8);
+  assert.equal(getKernelLongSize('aarch64'), 8);
+  assert.equal(getKernelLongSize('i686'), 4);
+  assert.equal(getKernelLongSize('armv7l'), 4);
+});
+
+test('devices are classified from their keys', () => {
+  const letters = [28, 30, 44, 57];
+  assert.equal(classifyDevice(new Set([...letters, 1, 2, 3])), 'keyboard');
+  assert.equal(classifyDevice(new Set([272, 273, 274])), 'mouse');
+  assert.equal(classifyDevice(new Set([113, 114, 115])), 'other');
+  assert.equal(classifyDevice(new Set([30, 57])), 'other');
+});
@@ -0,0 +1,61 @@
+const assert = require('node:assert/strict');
+const { test } = require('node:test');
+const { formatHotkey, HotkeyParseError, normalizeHotkey, parseHotkey } = require('../dist/hotkey/grammar');
+
+test('canonical hotkeys round-trip through parse and format', () => {
+  for (const hotkey of [
+    'Ctrl+Space',
+    'RightAlt',
+    'LeftCtrl+LeftShift',
+    'Ctrl+Shift+Alt+Meta+F13',
+    'Escape',
+    'Meta+Backquote',
+    'Mouse4',
+    'RightCtrl+PageDown',
+  ]) {
+    assert.equal(formatHotkey(parseHotkey(hotkey)), hotkey);
+  }
+});
+
+test('aliases, case and modifier order normalize to the canonical spelling', () => {
+  const cases = [
+    ['ctrl+esc', 'Ctrl+Escape'],
+    ['space+CONTROL', 'Ctrl+Space'],
+    ['cmd+shift+return', 'Shift+Meta+Enter'],
+    ['altgr', 'RightAlt'],
+    ['lctrl + rshift + a', 'LeftCtrl+RightShift+A'],
+    ['mouseback', 'Mouse4'],
+  ];
+
+  for (const [input, expected] of cases) {
+    const normalized = normalizeHotkey(input);
+    assert.equal(normalized, expected);
+    assert.equal(normalizeHotkey(normalized), normalized);
+  }
+});
+
+test('typos are rejected with a suggestion', () => {
+  const cases = [
+    ['Ctrl+Spcae', /Unknown key "spcae" in hotkey "Ctrl\+Spcae"\. Did you mean "Space"\?/],
+    ['Crtl+Space', /Unknown key "crtl".*Did you mean "Ctrl"\?/],
+    ['Ctrl+Escpe', /Did you mean "Escape"\?/],
+  ];
+
+  for (const [input, message] of cases) {
+    assert.throws(() => parseHotkey(input), (error) => error instanceof HotkeyParseError && message.test(error.message));
+  }
+});
+
+test('unknown and malformed hotkeys are rejected with a useful error', () => {
+  const cases = [
+    ['Ctrl+Hyperdrive', /^Unknown key "hyperdrive" in hotkey "Ctrl\+Hyperdrive"$/],
+    ['', /Hotkey is empty/],
+    ['Ctrl++Space', /Empty key in hotkey "Ctrl\+\+Space"/],
+    ['Ctrl+LeftCtrl+A', /Modifier Ctrl appears more than once/],
+    ['Ctrl+A+B', /more than one non-modifier key \(A, B\)/],
+  ];
+
+  for (const [input, message] of cases) {
+    assert.throws(() => parseHotkey(input), (error) => error instanceof HotkeyParseError && message.test(error.message));
+  }
+});
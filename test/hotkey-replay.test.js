@@ -0,0 +1,64 @@
+const assert = require('node:assert/strict');
+const path = require('node:path');
+const { test } = require('node:test');
+const { loadKeyEvents, parseEvdevDump, replayKeyEvents } = require('../dist/hotkey/replay');
+
+const fixture = (name) => loadKeyEvents(path.join(__dirname, 'fixtures', name));
+
+const BINDINGS = [
+  { id: 'default', hotkey: 'Ctrl+Space' },
+  { id: 'cancel-hotkey', hotkey: 'Escape', interrupt: true },
+];
+
+test('cancel fires while the dictation hotkey is held', () => {
+  const transitions = replayKeyEvents(fixture('cancel-during-hold.json'), BINDINGS)
+    .map(({ type, bindingId }) => `${type}:${bindingId}`);
+
+  assert.deepEqual(transitions, [
+    'down:default',
+    'down:cancel-hotkey',
+    'up:cancel-hotkey',
+    'up:default',
+  ]);
+});
+
+test('non-interrupt bindings stay blocked while another binding is held', () => {
+  const bindings = [BINDINGS[0], { id: 'escape', hotkey: 'Escape' }];
+  const transitions = replayKeyEvents(fixture('cancel-during-hold.json'), bindings)
+    .map(({ type, bindingId }) => `${type}:${bindingId}`);
+
+  assert.deepEqual(transitions, ['down:default', 'up:default']);
+});
+
+// 24-byte little-endian input_event records: [evdev code, value, ms]
+function evdevDump(events) {
+  const buffer = Buffer.alloc(events.length * 24);
+  events.forEach(([code, value, ms], index) => {
+    const offset = index * 24;
+    buffer.writeBigInt64LE(BigInt(Math.floor(ms / 1000)), offset);
+    buffer.writeBigInt64LE(BigInt((ms % 1000) * 1000), offset + 8);
+    buffer.writeUInt16LE(1, offset + 16); // EV_KEY
+    buffer.writeUInt16LE(code, offset + 18);
+    buffer.writeInt32LE(value, offset + 20);
+  });
+  return buffer;
+}
+
+test('evdev key repeats do not re-trigger a held hotkey', () => {
+  const KEY_LEFTCTRL = 29;
+  const KEY_SPACE = 57;
+  const events = parseEvdevDump(evdevDump([
+    [KEY_LEFTCTRL, 1, 0],
+    [KEY_SPACE, 1, 40],
+    [KEY_SPACE, 2, 540],
+    [KEY_LEFTCTRL, 2, 560],
+    [KEY_SPACE, 2, 570],
+    [KEY_SPACE, 0, 900],
+    [KEY_LEFTCTRL, 0, 950],
+  ]), 'x64');
+
+  const transitions = replayKeyEvents(events, [BINDINGS[0]])
+    .map(({ type, bindingId, timestamp }) => `${type}:${bindingId}@${timestamp}`);
+
+  assert.deepEqual(transitions, ['down:default@40', 'up:default@900']);
+});
@@ -0,0 +1,47 @@
+const assert = require('node:assert/strict');
+const { test } = require('node:test');
+const { parseHotkey } = require('../dist/hotkey/grammar');
+const { HotkeyStateMachine } = require('../dist/hotkey/state-machine');
+
+// Feed "+code" (press) / "-code" (release) steps and collect the transitions
+function run(hotkey, steps) {
+  const machine = new HotkeyStateMachine();
+  machine.setBindings([{ id: 'ptt', hotkey: parseHotkey(hotkey) }]);
+
+  return steps
+    .map((step, index) => machine.process({ code: step.slice(1), pressed: step[0] === '+', timestamp: index * 10 }))
+    .filter(Boolean)
+    .map(({ type }) => type);
+}
+
+test('modifiers can be pressed in any order', () => {
+  assert.deepEqual(run('Ctrl+Shift+A', ['+leftctrl', '+leftshift', '+a', '-a', '-leftshift', '-leftctrl']), ['down', 'up']);
+  assert.deepEqual(run('Ctrl+Shift+A', ['+leftshift', '+leftctrl', '+a', '-a', '-leftctrl', '-leftshift']), ['down', 'up']);
+  assert.deepEqual(run('Ctrl+Shift', ['+leftshift', '+leftctrl', '-leftctrl', '-leftshift']), ['down', 'up']);
+  assert.deepEqual(run('Ctrl+Shift', ['+leftctrl', '+leftshift', '-leftshift', '-leftctrl']), ['down', 'up']);
+});
+
+test('the key pressed before its modifiers does not trigger', () => {
+  assert.deepEqual(run('Ctrl+Space', ['+space', '+leftctrl', '-leftctrl', '-space']), []);
+});
+
+test('auto-repeat of a held hotkey triggers once', () => {
+  assert.deepEqual(
+    run('Ctrl+Space', ['+leftctrl', '+space', '+space', '+space', '+leftctrl', '+space', '-space', '-leftctrl']),
+    ['down', 'up']
+  );
+  assert.deepEqual(run('RightAlt', ['+rightalt', '+rightalt', '+rightalt', '-rightalt']), ['down', 'up']);
+});
+
+test('releasing the key before its modifier ends the hotkey once', () => {
+  assert.deepEqual(run('Ctrl+Space', ['+leftctrl', '+space', '-space', '-leftctrl']), ['down', 'up']);
+});
+
+test('releasing the modifier before the key keeps the hotkey until the key is up', () => {
+  assert.deepEqual(run('Ctrl+Space', ['+leftctrl', '+space', '-leftctrl']), ['down']);
+  assert.deepEqual(run('Ctrl+Space', ['+leftctrl', '+space', '-leftctrl', '-space']), ['down', 'up']);
+});
+
+test('a modifier-only hotkey ends when one of its modifiers is released', () => {
+  assert.deepEqual(run('Ctrl+Shift', ['+leftctrl', '+leftshift', '-leftctrl']), ['down', 'up']);
+});
@@ -0,0 +1,22 @@
+const assert = require('node:assert/strict');
+const { test } = require('node:test');
+const { spokenPunctuation } = require('../dist/postprocess/transforms');
+
+const convert = (text) => spokenPunctuation(text, {});
+
+test('spoken commands become punctuation', () => {
+  assert.equal(convert('Hello, comma, world.'), 'Hello, world.');
+  assert.equal(convert('Is it done? Question mark.'), 'Is it done?');
+  assert.equal(convert('Call, open paren, x, close paren.'), 'Call (x)');
+  assert.equal(convert('First. New paragraph. Second.'), 'First.\n\nSecond.');
+});
+
+test('punctuation before a line break is kept', () => {
+  assert.equal(convert('Hello world. New line. How are you?'), 'Hello world.\nHow are you?');
+});
+
+test('the same words in prose are left alone', () => {
+  assert.equal(convert('It took the period of time we expected.'), 'It took the period of time we expected.');
+  assert.equal(convert('A new line of products, version 2.5.'), 'A new line of products, version 2.5.');
+  assert.equal(convert('I waited for a long period.'), 'I waited for a long period.');
+});
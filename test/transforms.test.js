@@ -0,0 +1,64 @@
+const assert = require('node:assert/strict');
+const { test } = require('node:test');
+const { capitalize, removeFillers, replacements, trailingSpace } = require('../dist/postprocess/transforms');
+
+const CONFIG = {
+  transforms: [],
+  fillerWords: ['um', 'uh', 'er', 'erm', 'ah', 'hmm'],
+  replacements: {},
+  capitalization: 'none',
+  trailingSpace: false,
+};
+
+// Each case: [input, expected, config overrides]
+function check(transform, cases) {
+  for (const [input, expected, overrides = {}] of cases) {
+    assert.equal(transform(input, { ...CONFIG, ...overrides }), expected, JSON.stringify(input));
+  }
+}
+
+test('removeFillers', () => {
+  check(removeFillers, [
+    ['Um, I think so.', 'I think so.'],
+    ['So uh we should, um, ship it', 'So we should, ship it'],
+    ['It is, er, done.', 'It is, done.'],
+    ['Hmm', ''],
+    // Whole words only
+    ['The umbrella is humming', 'The umbrella is humming'],
+    ['Um, no fillers configured', 'Um, no fillers configured', { fillerWords: [] }],
+  ]);
+});
+
+test('replacements', () => {
+  const dictionary = { 'cube control': 'kubectl', 'ts config': 'tsconfig.json', 'c++': 'C++' };
+  check(replacements, [
+    ['run cube control apply', 'run kubectl apply', { replacements: dictionary }],
+    ['Cube Control is great', 'kubectl is great', { replacements: dictionary }],
+    ['edit ts config.', 'edit tsconfig.json.', { replacements: dictionary }],
+    ['learn c++ today', 'learn C++ today', { replacements: dictionary }],
+    // Whole words only
+    ['cube controller', 'cube controller', { replacements: dictionary }],
+    // Replacement text is literal, not a replace() pattern
+    ['dollar $1 stays', 'USD $& $1 stays', { replacements: { dollar: 'USD $&' } }],
+    ['unchanged', 'unchanged'],
+  ]);
+});
+
+test('capitalize', () => {
+  check(capitalize, [
+    ['hello world. how are you? fine', 'Hello world. How are you? Fine', { capitalization: 'sentence' }],
+    ['first line\nsecond line', 'First line\nSecond line', { capitalization: 'sentence' }],
+    ['Hello World', 'hello world', { capitalization: 'lower' }],
+    ['keep As is', 'keep As is', { capitalization: 'none' }],
+  ]);
+});
+
+test('trailingSpace', () => {
+  check(trailingSpace, [
+    ['done', 'done ', { trailingSpace: true }],
+    ['done ', 'done ', { trailingSpace: true }],
+    ['done\n', 'done\n', { trailingSpace: true }],
+    ['', '', { trailingSpace: true }],
+    ['done', 'done', { trailingSpace: false }],
+  ]);
+});
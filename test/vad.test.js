@@ -0,0 +1,72 @@
+const assert = require('node:assert/strict');
+const { test } = require('node:test');
+const { computeLevel, findSpeechBounds, trimSilence, VoiceActivityDetector } = require('../dist/vad');
+
+// 16 kHz mono 16-bit PCM; 30 ms frames are 960 bytes, 200 ms of padding is 7 frames
+const FRAME_BYTES = 960;
+
+function silence(ms) {
+  return Buffer.alloc(ms * 32);
+}
+
+// A loud square wave (about 24% of full scale)
+function speech(ms) {
+  const buffer = Buffer.alloc(ms * 32);
+  for (let offset = 0; offset < buffer.length; offset += 2) {
+    buffer.writeInt16LE((offset / 2) % 32 < 16 ? 8000 : -8000, offset);
+  }
+  return buffer;
+}
+
+test('levels are RMS as a percentage of full scale', () => {
+  assert.equal(computeLevel(silence(30)), 0);
+  assert.ok(Math.abs(computeLevel(speech(30)) - (8000 / 32768) * 100) < 1e-9);
+});
+
+test('an all-silent clip has no speech', () => {
+  assert.equal(findSpeechBounds(silence(1000)), null);
+  assert.equal(trimSilence(silence(1000)), null);
+});
+
+test('leading and trailing silence are trimmed, keeping the padding', () => {
+  const pcm = Buffer.concat([silence(600), speech(600), silence(600)]);
+
+  assert.deepEqual(findSpeechBounds(pcm), { start: (20 - 7) * FRAME_BYTES, end: (40 + 7) * FRAME_BYTES });
+  assert.equal(trimSilence(pcm).length, (20 + 2 * 7) * FRAME_BYTES);
+});
+
+test('padding is clamped to the clip', () => {
+  const pcm = Buffer.concat([silence(60), speech(300), silence(60)]);
+  assert.deepEqual(findSpeechBounds(pcm), { start: 0, end: pcm.length });
+});
+
+test('a clip without silence is kept whole', () => {
+  const pcm = speech(900);
+  assert.deepEqual(trimSilence(pcm), pcm);
+});
+
+test('less speech than minSpeechMs counts as no speech', () => {
+  const pcm = Buffer.concat([silence(300), speech(90), silence(300)]);
+  assert.equal(trimSilence(pcm), null);
+  assert.notEqual(trimSilence(pcm, { minSpeechMs: 60 }), null);
+});
+
+test('the streaming detector reports silence only after speech', () => {
+  const detector = new VoiceActivityDetector({ silenceTimeoutMs: 600 });
+  const silences = [];
+  detector.on('silence', (ms) => silences.push(ms));
+
+  detector.process(silence(1500));
+  assert.deepEqual(silences, []);
+
+  detector.process(speech(300));
+  detector.process(silence(570));
+  assert.deepEqual(silences, []);
+
+  detector.process(silence(60));
+  assert.deepEqual(silences, [600]);
+
+  // Reported once per pause
+  detector.process(silence(1000));
+  assert.deepEqual(silences, [600]);
+});